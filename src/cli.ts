@@ -1,17 +1,42 @@
 #!/usr/bin/env node
 import { Command } from 'commander';
+import chalk from 'chalk';
 import dotenv from 'dotenv';
 import { readFileSync } from 'fs';
+import { readFile, writeFile } from 'fs/promises';
+import { createInterface, type Interface } from 'readline/promises';
 import { fileURLToPath } from 'url';
-import { dirname, join } from 'path';
-import { LLMClient } from './core/llm.js';
-import { ConfuciusOrchestrator, LLMProvider } from './sdk/orchestrator.js';
+import { dirname, join, relative, resolve } from 'path';
+import { LLMClient, type LLMTarget } from './core/llm.js';
+import { loadConfig, mergeConfig, toBashOptions, type ConfuciusConfig } from './core/config.js';
+import type { ChatSession } from './sdk/chat.js';
+import { ConfuciusOrchestrator, LLMProvider, StreamingLLMProvider, StreamCallbacks, LLMInvokeOptions } from './sdk/orchestrator.js';
+import { RecordingLLMProvider, createReplayProvider } from './sdk/providers/index.js';
+import { FileArtifactStore } from './sdk/artifacts/index.js';
 import { ExtensionRegistry } from './sdk/registry.js';
-import { createBashExtension, createFileEditExtension, createThinkExtension, createFinishExtension } from './sdk/extensions/index.js';
+import type { EntryAttachment } from './sdk/memory/index.js';
+import { createCompressionStrategy } from './sdk/compression.js';
+import { RunRecorder, toJsonResult, exitCodeFor, type RunReport } from './sdk/run-report.js';
+import {
+  ApprovalGate,
+  RuleApprovalPolicy,
+  DEFAULT_APPROVAL_RULES,
+  loadApprovalRules,
+  type ApprovalRule,
+  type Approver,
+} from './sdk/approval.js';
+import {
+  createBashExtension,
+  createFileEditExtension,
+  createThinkExtension,
+  createFinishExtension,
+  createArtifactReadExtension,
+} from './sdk/extensions/index.js';
+import type { IExtension } from './sdk/extensions/index.js';
 import { logger } from './core/logger.js';
-import type { Message, LLMResponse, Logger, ArtifactStore, Artifact, RunConfig } from './sdk/types.js';
+import type { Message, LLMResponse, Logger, RunConfig, OrchestratorState } from './sdk/types.js';
 
-dotenv.config();
+dotenv.config({ quiet: true });
 
 // Read version from package.json
 const __filename = fileURLToPath(import.meta.url);
@@ -23,37 +48,20 @@ const program = new Command();
 /**
  * Adapter to bridge simple LLMClient to LLMProvider interface.
  */
-class LLMClientAdapter implements LLMProvider {
+class LLMClientAdapter implements StreamingLLMProvider {
   constructor(private client: LLMClient) {}
 
-  async invoke(systemPrompt: string, messages: Message[]): Promise<LLMResponse> {
-    const userMessage = messages.filter(m => m.role === 'user').pop()?.content || '';
-    const content = await this.client.chat(systemPrompt, userMessage);
-    return {
-      content,
-      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
-      stopReason: 'end_turn',
-    };
+  async invoke(systemPrompt: string, messages: Message[], options?: LLMInvokeOptions): Promise<LLMResponse> {
+    return this.client.complete(systemPrompt, messages, options);
   }
-}
-
-/**
- * Simple in-memory artifact store.
- */
-class MemoryArtifactStore implements ArtifactStore {
-  private artifacts: Map<string, Artifact> = new Map();
 
-  async save(artifact: Artifact): Promise<string> {
-    this.artifacts.set(artifact.id, artifact);
-    return artifact.id;
-  }
-
-  async get(id: string): Promise<Artifact | null> {
-    return this.artifacts.get(id) || null;
-  }
-
-  async list(): Promise<Artifact[]> {
-    return Array.from(this.artifacts.values());
+  async invokeStream(
+    systemPrompt: string,
+    messages: Message[],
+    callbacks: StreamCallbacks,
+    options?: LLMInvokeOptions
+  ): Promise<LLMResponse> {
+    return this.client.stream(systemPrompt, messages, callbacks.onToken, { ...options, onToolCall: callbacks.onToolCall });
   }
 }
 
@@ -78,6 +86,7 @@ You can use these tools:
 <file_edit><path>filepath</path><content>content</content></file_edit> - Create or edit files
 <think>reasoning</think> - Internal reasoning (not shown to user)
 <finish>completion message</finish> - Signal that the task is complete
+<artifact_read id="..." range="1-200"/> - Read more of a long output that was saved as an artifact
 
 IMPORTANT: When you have completed the requested task, you MUST use the <finish> tool to signal completion.
 Example: <finish>Task completed. Created proof.txt with the requested content.</finish>
@@ -85,61 +94,748 @@ Example: <finish>Task completed. Created proof.txt with the requested content.</
 Do NOT keep repeating actions after they succeed. Once the task is done, use <finish> immediately.
 `;
 
+/**
+ * Flags shared by every command. Settings that can also come from a config
+ * file are declared by ConfuciusConfig.
+ */
+interface CliOptions extends ConfuciusConfig {
+  apiKey?: string;
+  record?: string;
+  replay?: string;
+  config?: string;
+  json?: boolean;
+  jsonl?: boolean;
+  taskFile?: string;
+  attach?: string[];
+  verbose?: boolean;
+}
+
+/**
+ * Options after merging defaults, config files and flags.
+ */
+type ResolvedOptions = CliOptions & Required<Pick<
+  ConfuciusConfig,
+  'provider' | 'model' | 'maxIterations' | 'tools' | 'stream' | 'approval' | 'extensions'
+>>;
+
+/**
+ * Merge the default config, the user and project config files, and the
+ * flags actually given on the command line (commander defaults would
+ * otherwise mask config file values).
+ */
+async function resolveOptions(command: Command): Promise<{ options: ResolvedOptions; sources: string[] }> {
+  const flags = Object.fromEntries(
+    Object.entries(command.opts<CliOptions>()).filter(([key]) => command.getOptionValueSource(key) === 'cli')
+  ) as CliOptions;
+
+  const { config, sources } = await loadConfig({ configFile: flags.config });
+  return {
+    options: { ...flags, ...mergeConfig(config, flags) } as ResolvedOptions,
+    sources,
+  };
+}
+
+/**
+ * Built-in extensions by name, configured from the resolved options.
+ */
+function createBuiltinExtensions(options: ResolvedOptions): IExtension[] {
+  const factories: Record<string, () => IExtension> = {
+    bash: () => createBashExtension(toBashOptions(options.extensionOptions?.bash)),
+    file_edit: () => createFileEditExtension(options.extensionOptions?.file_edit),
+    think: () => createThinkExtension(),
+    finish: () => createFinishExtension(),
+    artifact_read: () => createArtifactReadExtension(),
+  };
+
+  return options.extensions.map((name) => {
+    const factory = factories[name];
+    if (factory === undefined) {
+      throw new Error(`Unknown extension "${name}", expected one of: ${Object.keys(factories).join(', ')}`);
+    }
+    return factory();
+  });
+}
+
+/**
+ * Reads a line from the terminal after showing a prompt. Rejects if the
+ * signal fires or input ends first.
+ */
+type Ask = (question: string, signal?: AbortSignal) => Promise<string>;
+
+/**
+ * Ask on a readline interface opened just for each question. Ctrl-C is
+ * passed on to the process so it cancels the run.
+ */
+function askOnce(output: NodeJS.WriteStream): Ask {
+  return async (question, signal) => {
+    const rl = createInterface({ input: process.stdin, output });
+    rl.on('SIGINT', () => process.kill(process.pid, 'SIGINT'));
+    try {
+      return await rl.question(question, { signal });
+    } finally {
+      rl.close();
+    }
+  };
+}
+
+/**
+ * Line input for chat mode, shared by the chat prompt and approval
+ * prompts. Lines that arrive while nobody is asking (typed ahead, or piped
+ * in) are queued rather than dropped.
+ */
+class ChatInput {
+  private rl: Interface;
+  private lines: string[] = [];
+  private closed = false;
+  private waiter: { resolve: (line: string) => void; reject: (error: Error) => void } | null = null;
+
+  constructor(onInterrupt: () => void) {
+    this.rl = createInterface({ input: process.stdin, output: process.stdout });
+    this.rl.on('SIGINT', onInterrupt);
+    this.rl.on('line', (line) => {
+      if (this.waiter) {
+        this.waiter.resolve(line);
+        this.waiter = null;
+      } else {
+        this.lines.push(line);
+      }
+    });
+    this.rl.on('close', () => {
+      this.closed = true;
+      this.waiter?.reject(new Error('Input closed'));
+      this.waiter = null;
+    });
+  }
+
+  readonly ask: Ask = (question, signal) => new Promise((resolve, reject) => {
+    const queued = this.lines.shift();
+    if (queued !== undefined) {
+      resolve(queued);
+      return;
+    }
+    if (this.closed) {
+      reject(new Error('Input closed'));
+      return;
+    }
+    if (signal?.aborted === true) {
+      reject(new Error('Cancelled'));
+      return;
+    }
+    signal?.addEventListener('abort', () => {
+      this.waiter = null;
+      reject(new Error('Cancelled'));
+    }, { once: true });
+    this.waiter = { resolve, reject };
+    this.rl.setPrompt(question);
+    this.rl.prompt();
+  });
+
+  close(): void {
+    this.rl.close();
+  }
+}
+
+/**
+ * Ask on the terminal whether an action may run.
+ * Ctrl-C while waiting cancels the run and denies the action.
+ */
+function promptForApproval(ask: Ask): Approver {
+  return async (request) => {
+    const question =
+      `\n${chalk.yellow(`⚠ Approval needed for ${request.extension}: ${request.reason}`)}\n` +
+      `${chalk.bold(`  ${request.subject}`)}\n` +
+      'Allow? [y]es / [n]o / [a]lways for this run: ';
+    const answer = (await ask(question, request.signal))
+      .trim()
+      .toLowerCase();
+    if (answer === 'a' || answer === 'always') return 'always';
+    return answer === 'y' || answer === 'yes' ? 'approve' : 'deny';
+  };
+}
+
+/**
+ * Build the approval gate from CLI options, or null when approvals are off.
+ * Decisions are appended to .ralph/approvals.jsonl.
+ */
+async function createApprovalGate(options: ResolvedOptions, ask: Ask): Promise<ApprovalGate | null> {
+  if (options.approval === 'off') {
+    return null;
+  }
+
+  const rules: ApprovalRule[] = options.approvalRules !== undefined
+    ? await loadApprovalRules(options.approvalRules)
+    : [];
+
+  const interactive = options.approval === 'prompt' && process.stdin.isTTY === true;
+  if (options.approval === 'prompt' && !interactive) {
+    logger.info('stdin is not a terminal; actions that need approval will be denied');
+  }
+
+  return new ApprovalGate(sdkLogger, {
+    policy: new RuleApprovalPolicy([...rules, ...DEFAULT_APPROVAL_RULES], process.cwd()),
+    approver: interactive ? promptForApproval(ask) : undefined,
+    recordFile: join(process.cwd(), '.ralph', 'approvals.jsonl'),
+  });
+}
+
+const PROVIDERS = ['openai', 'anthropic', 'openrouter', 'local'];
+
+/**
+ * Parse a `provider:model` fallback spec, e.g. `openai:gpt-4o`.
+ */
+function parseTarget(spec: string): LLMTarget {
+  const separator = spec.indexOf(':');
+  const provider = spec.substring(0, separator);
+  const model = spec.substring(separator + 1);
+  if (separator <= 0 || model.length === 0 || !PROVIDERS.includes(provider)) {
+    throw new Error(`Invalid fallback "${spec}", expected <${PROVIDERS.join('|')}>:<model>`);
+  }
+  return { provider: provider as LLMTarget['provider'], model };
+}
+
+/**
+ * Create the LLM provider: a replayed cassette, or the configured model,
+ * optionally recording to a cassette.
+ */
+async function createLLMProvider(options: ResolvedOptions): Promise<LLMProvider> {
+  if (options.replay !== undefined) {
+    if (options.record !== undefined) {
+      throw new Error('--record and --replay cannot be used together');
+    }
+    logger.info(`Replaying LLM responses from ${options.replay}`);
+    return createReplayProvider(options.replay);
+  }
+
+  const provider = new LLMClientAdapter(new LLMClient({
+    provider: options.provider,
+    model: options.model,
+    apiKey: options.apiKey,
+    baseUrl: options.baseUrl,
+    retry: options.retries !== undefined ? { maxRetries: options.retries } : undefined,
+    fallbacks: (options.fallback ?? []).map(parseTarget),
+  }));
+
+  if (options.record !== undefined) {
+    logger.info(`Recording LLM calls to ${options.record}`);
+    return new RecordingLLMProvider(provider, options.record);
+  }
+  return provider;
+}
+
+/**
+ * Build an orchestrator with the built-in extensions from the resolved options.
+ *
+ * @param ask - How approval prompts read the answer
+ */
+async function createAgent(
+  options: ResolvedOptions,
+  ask: Ask = askOnce(displayStream(options))
+): Promise<ConfuciusOrchestrator> {
+  if (options.verbose === true) logger.setLevel('debug');
+
+  logger.info('Initializing Confucius Agent...');
+
+  const llm = await createLLMProvider(options);
+
+  const config: RunConfig = {
+    maxIterations: options.maxIterations,
+    compressionThreshold: options.compressionThreshold,
+    compressionStrategy: options.compression !== undefined ? createCompressionStrategy(options.compression) : undefined,
+    maxResultLength: options.maxResultLength,
+    enabledExtensions: options.extensions,
+    streaming: options.stream,
+    // Recorded prompts must not depend on the knowledge base at the time
+    learnedRules: options.record === undefined && options.replay === undefined,
+    model: {
+      provider: options.provider === 'openrouter' ? 'openai-compatible' : options.provider,
+      name: options.model,
+      supportsToolUse: options.tools,
+      contextWindow: options.contextWindow,
+    },
+    budget: {
+      maxTokens: options.maxTokens,
+      maxCostUsd: options.maxCost,
+    },
+  };
+
+  // Create registry and register the enabled built-in extensions
+  const registry = new ExtensionRegistry(sdkLogger);
+  for (const extension of createBuiltinExtensions(options)) {
+    registry.register(extension);
+  }
+  registry.setApprovalGate(await createApprovalGate(options, ask));
+
+  const systemPrompt = options.systemPromptFile !== undefined
+    ? await readFile(options.systemPromptFile, 'utf-8')
+    : DEFAULT_SYSTEM_PROMPT;
+
+  return new ConfuciusOrchestrator({
+    llm,
+    registry,
+    logger: sdkLogger,
+    artifacts: new FileArtifactStore(sdkLogger, process.cwd()),
+    systemPrompt,
+    config,
+    workingDirectory: process.cwd(),
+    onToken: (token) => displayStream(options).write(chalk.dim(token)),
+  });
+}
+
+/**
+ * Cancel the run on the first Ctrl-C so it can stop cleanly and still write
+ * session notes; a second Ctrl-C exits immediately.
+ */
+function cancelOnInterrupt(): AbortSignal {
+  const controller = new AbortController();
+  process.on('SIGINT', () => {
+    if (controller.signal.aborted) {
+      process.exit(130);
+    }
+    logger.info('Cancelling... (press Ctrl-C again to force quit)');
+    controller.abort();
+  });
+  return controller.signal;
+}
+
+/**
+ * Read all of stdin.
+ */
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * The task from the argument, stdin (`-`) or --task-file.
+ */
+async function readTask(task: string | undefined, options: CliOptions): Promise<string> {
+  if (task !== undefined && options.taskFile !== undefined) {
+    throw new Error('Give the task as an argument or with --task-file, not both');
+  }
+  const text = options.taskFile !== undefined
+    ? await readFile(options.taskFile, 'utf-8')
+    : task === '-' ? await readStdin() : task;
+
+  if (text === undefined || text.trim().length === 0) {
+    throw new Error('No task given: pass it as an argument, use - to read it from stdin, or use --task-file');
+  }
+  return text.trim();
+}
+
+/**
+ * Load --attach files for the entry scope.
+ */
+async function readAttachments(files: string[]): Promise<EntryAttachment[]> {
+  return Promise.all(files.map(async (file) => {
+    const content = await readFile(file, 'utf-8');
+    if (content.includes('\u0000')) {
+      throw new Error(`Cannot attach ${file}: it looks like a binary file`);
+    }
+    return { path: relative(process.cwd(), resolve(file)), content };
+  }));
+}
+
+/**
+ * Where human-facing output goes: stderr when stdout carries JSON.
+ */
+function displayStream(options: CliOptions): NodeJS.WriteStream {
+  return options.json === true || options.jsonl === true ? process.stderr : process.stdout;
+}
+
+/**
+ * With --jsonl, write each lifecycle event to stdout as one JSON line.
+ */
+function streamEvents(agent: ConfuciusOrchestrator): void {
+  const emit = (event: string, payload: object): void => {
+    process.stdout.write(`${JSON.stringify({ event, time: new Date().toISOString(), ...payload })}\n`);
+  };
+
+  agent.on('iteration:start', (payload) => emit('iteration:start', payload));
+  agent.on('llm:response', ({ response, ...payload }) => emit('llm:response', {
+    ...payload,
+    content: response.content,
+    toolCalls: response.toolCalls,
+    stopReason: response.stopReason,
+    usage: response.usage,
+  }));
+  agent.on('action:parsed', ({ action, ...payload }) => emit('action:parsed', { ...payload, parameters: action.parameters }));
+  agent.on('action:result', ({ action, result, ...payload }) => emit('action:result', {
+    ...payload,
+    parameters: action.parameters,
+    result: toJsonResult(result),
+  }));
+  agent.on('compression', (payload) => emit('compression', payload));
+  agent.on('terminate', ({ result, ...payload }) => emit('terminate', {
+    ...payload,
+    result: result ? toJsonResult(result) : undefined,
+  }));
+  agent.on('notes:written', (payload) => emit('notes:written', payload));
+}
+
+/**
+ * Write the final report: pretty JSON for --json, a `result` line for --jsonl.
+ */
+function writeReport(options: CliOptions, report: RunReport): void {
+  process.stdout.write(options.jsonl === true
+    ? `${JSON.stringify({ event: 'result', time: new Date().toISOString(), ...report })}\n`
+    : `${JSON.stringify(report, null, 2)}\n`);
+}
+
+/**
+ * Run or resume a task and report the outcome as text or JSON. The exit
+ * code says how the run ended (see EXIT_CODES); 1 also covers failures
+ * before the run could start.
+ */
+async function executeRun(
+  start: (agent: ConfuciusOrchestrator, signal: AbortSignal) => Promise<OrchestratorState>
+): Promise<void> {
+  const signal = cancelOnInterrupt();
+  const flags = program.opts<CliOptions>();
+  if (flags.json === true || flags.jsonl === true) {
+    logger.useStderr();
+  }
+
+  try {
+    if (flags.json === true && flags.jsonl === true) {
+      throw new Error('--json and --jsonl cannot be used together');
+    }
+    const { options } = await resolveOptions(program);
+    const agent = await createAgent(options);
+    const recorder = new RunRecorder(agent);
+    if (options.jsonl === true) {
+      streamEvents(agent);
+    }
+
+    const result = await start(agent, signal);
+    const report = recorder.report(result);
+    if (options.json === true || options.jsonl === true) {
+      writeReport(options, report);
+    } else {
+      reportResult(result.sessionId, result);
+    }
+    process.exitCode = report.exitCode;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(message);
+    if (flags.json === true || flags.jsonl === true) {
+      writeReport(flags, {
+        terminationReason: 'error',
+        success: false,
+        message,
+        iterations: 0,
+        actions: [],
+        artifacts: [],
+        exitCode: exitCodeFor('error'),
+      });
+    }
+    process.exitCode = exitCodeFor('error');
+  }
+}
+
+/**
+ * Print the outcome of a run.
+ */
+function reportResult(sessionId: string | undefined, result: OrchestratorState): void {
+  if (result.terminationReason === 'completed') {
+    logger.success('Task completed successfully');
+  } else {
+    logger.info(`Task ended: ${result.terminationReason}`);
+    if (sessionId !== undefined) {
+      logger.info(`Resume with: confucius resume ${sessionId}`);
+    }
+  }
+
+  if (result.cost) {
+    const { total } = result.cost;
+    logger.info(`Usage: ${total.totalTokens} tokens over ${total.calls} calls (~$${total.costUsd.toFixed(4)})`);
+  }
+}
+
+const CHAT_HELP = `Commands:
+  /memory    Memory usage by scope
+  /notes     Notes in memory
+  /compress  Summarize older history now
+  /tools     Available tools
+  /cost      Token usage and estimated cost so far
+  /undo      Forget the last task (file changes are kept)
+  /exit      Leave the chat (or Ctrl-C / Ctrl-D at the prompt)
+`;
+
+/**
+ * Run a slash command in chat mode.
+ *
+ * @returns false when the chat should end
+ */
+async function runChatCommand(chat: ChatSession, input: string): Promise<boolean> {
+  const [command] = input.split(/\s+/);
+  const write = (text: string): boolean => process.stdout.write(`${text}\n`);
+
+  switch (command) {
+    case '/exit':
+    case '/quit':
+      return false;
+    case '/help':
+      write(CHAT_HELP);
+      break;
+    case '/memory': {
+      const { scopes, total, notes, tokenizer } = chat.getMemory().getStats();
+      write(`Session:  ${scopes.session.messages} messages, ~${scopes.session.tokens} tokens`);
+      write(`Entry:    ${scopes.entry.messages} messages, ~${scopes.entry.tokens} tokens`);
+      write(`Runnable: ${scopes.runnable.messages} messages, ~${scopes.runnable.tokens} tokens`);
+      write(`Total:    ${total.messages} messages, ~${total.tokens} tokens; ${notes} notes; ${chat.getTurns().length} tasks (counted with ${tokenizer})`);
+      break;
+    }
+    case '/notes': {
+      const notes = chat.getNotes();
+      if (notes.length === 0) {
+        write('No notes in memory');
+      }
+      for (const note of notes) {
+        write(`${chalk.bold(note.path)}  ${note.content.split('\n')[0].substring(0, 100)}`);
+      }
+      break;
+    }
+    case '/compress': {
+      const { tokensBefore, tokensAfter } = await chat.compress();
+      write(tokensAfter < tokensBefore
+        ? `Compressed memory from ~${tokensBefore} to ~${tokensAfter} tokens`
+        : 'Nothing to compress yet');
+      break;
+    }
+    case '/tools':
+      for (const tool of chat.getTools()) {
+        write(`${chalk.bold(tool.name)}  ${tool.description}`);
+      }
+      break;
+    case '/cost': {
+      const { total, ...byCategory } = chat.getCost();
+      write(`${total.totalTokens} tokens (${total.promptTokens} prompt, ${total.completionTokens} completion) over ${total.calls} calls, ~$${total.costUsd.toFixed(4)}`);
+      for (const [category, usage] of Object.entries(byCategory)) {
+        if (usage.calls > 0) {
+          write(`  ${category}: ${usage.totalTokens} tokens over ${usage.calls} calls, ~$${usage.costUsd.toFixed(4)}`);
+        }
+      }
+      break;
+    }
+    case '/undo': {
+      const turn = chat.undo();
+      write(turn ? `Forgot: "${turn.task}" (file changes are kept)` : 'Nothing to undo');
+      break;
+    }
+    default:
+      write(`Unknown command ${command}. ${CHAT_HELP}`);
+  }
+  return true;
+}
+
+/**
+ * Interactive session: each line is a task run against the same memory,
+ * lines starting with / are commands. Ctrl-C cancels the running task;
+ * at the prompt it leaves the chat, and the session notes are written.
+ */
+async function runChat(options: ResolvedOptions): Promise<void> {
+  let turn: AbortController | null = null;
+  let prompt: AbortController | null = null;
+
+  const input = new ChatInput(() => {
+    if (turn?.signal.aborted === true) {
+      process.exit(130);
+    } else if (turn) {
+      logger.info('Cancelling... (press Ctrl-C again to force quit)');
+      turn.abort();
+    } else {
+      prompt?.abort();
+    }
+  });
+
+  try {
+    const agent = await createAgent(options, input.ask);
+    agent.on('notes:written', ({ path }) => {
+      logger.info(`Session notes: ${path}`);
+    });
+
+    const chat = await agent.startChat();
+    process.stdout.write(`Chat session ${chat.sessionId}. Type a task, or /help for commands.\n`);
+
+    for (;;) {
+      prompt = new AbortController();
+      let line: string;
+      try {
+        line = (await input.ask(chalk.cyan('confucius> '), prompt.signal)).trim();
+      } catch {
+        break;
+      }
+      if (line.length === 0) {
+        continue;
+      }
+      if (line.startsWith('/')) {
+        if (!await runChatCommand(chat, line)) {
+          break;
+        }
+        continue;
+      }
+
+      turn = new AbortController();
+      try {
+        const result = await chat.send(line, { signal: turn.signal });
+        process.stdout.write(`\n${result.result?.output ?? ''}\n`);
+        if (result.terminationReason !== 'completed') {
+          logger.info(`Task ended: ${result.terminationReason}`);
+        }
+      } finally {
+        turn = null;
+      }
+    }
+
+    // Ctrl-C while the notes are written skips them; pressed again it quits
+    turn = new AbortController();
+    if (chat.getTurns().length > 0) {
+      logger.info('Writing session notes...');
+    }
+    await chat.end({ signal: turn.signal });
+  } finally {
+    input.close();
+  }
+}
+
 program
   .name('confucius')
   .description('Confucius Code Agent CLI')
   .version(packageJson.version)
-  .argument('<task>', 'The task to execute')
-  .option('-p, --provider <type>', 'openai, anthropic, or openrouter', 'openrouter')
-  .option('-m, --model <name>', 'Model name', 'anthropic/claude-3.5-sonnet')
+  .argument('[task]', 'The task to execute, or - to read it from stdin')
+  .option('-p, --provider <type>', 'openai, anthropic, openrouter, or local (OpenAI-compatible server) (default: "openrouter")')
+  .option('-m, --model <name>', 'Model name (default: "anthropic/claude-3.5-sonnet")')
   .option('-k, --api-key <key>', 'API key (or set via env: OPENAI_API_KEY, ANTHROPIC_API_KEY, OPENROUTER_API_KEY)')
+  .option('--base-url <url>', 'API endpoint, e.g. http://localhost:8080/v1 for a llama.cpp server (local default: Ollama on :11434)')
+  .option('--retries <n>', 'Retries per provider for rate limits and server errors (default: 3)', (value) => parseInt(value, 10))
+  .option('--fallback <provider:model...>', 'Models to fail over to, in order, e.g. openai:gpt-4o')
+  .option('--max-iterations <n>', 'Maximum agent iterations (default: 10)', (value) => parseInt(value, 10))
+  .option('--context-window <n>', 'Context window of the model in tokens, if it is not built in (e.g. a local model)', (value) => parseInt(value, 10))
+  .option('--compression <strategy>', 'How older history is compressed: summary, elide-tool-output, importance, or hierarchical (default: "summary")')
+  .option('--max-tokens <n>', 'Stop the run after this many total tokens', parseFloat)
+  .option('--max-cost <usd>', 'Stop the run after this estimated cost in USD', parseFloat)
+  .option('--record <file>', 'Record every LLM request and response to a cassette file')
+  .option('--replay <file>', 'Replay LLM responses from a cassette instead of calling a model')
+  .option('--no-tools', 'Drive tools through XML tags only, without native function calling')
+  .option('--no-stream', 'Wait for complete LLM responses instead of streaming tokens')
+  .option('--approval <mode>', 'Actions needing approval: prompt, deny (non-interactive), or off (default: "prompt")')
+  .option('--approval-rules <file>', 'JSON file of pre-approved (or denied) action rules')
+  .option('--system-prompt-file <file>', 'Replace the default system prompt with the contents of a file')
+  .option('-c, --config <file>', 'Project config file (default: nearest confucius.config.{ts,json})')
+  .option('--task-file <path>', 'Read the task from a file')
+  .option('--attach <file...>', 'Include files with the task, e.g. a bug report and the relevant source')
+  .option('--json', 'Print a JSON report of the run to stdout (logs go to stderr)')
+  .option('--jsonl', 'Stream run events to stdout as JSON lines, ending with a result line')
   .option('-v, --verbose', 'Enable debug logs')
-  .action(async (task, options) => {
-    if (options.verbose) logger.setLevel('debug');
-    
-    logger.info('Initializing Confucius Agent...');
-    
-    const llmClient = new LLMClient({
-      provider: options.provider,
-      model: options.model,
-      apiKey: options.apiKey,
+  .action(async (taskArgument: string | undefined) => {
+    await executeRun(async (agent, signal) => {
+      const options = program.opts<CliOptions>();
+      const task = await readTask(taskArgument, options);
+      const attachments = await readAttachments(options.attach ?? []);
+
+      const preview = task.length > 80 ? `${task.substring(0, 80)}...` : task;
+      const attached = attachments.length > 0 ? ` with ${attachments.map(a => a.path).join(', ')}` : '';
+      logger.agent('Confucius', `Starting task: "${preview}"${attached}`);
+      return agent.run(task, { signal, attachments });
     });
+  });
 
-    const config: RunConfig = {
-      maxIterations: 10,
-      compressionThreshold: 5000, // Trigger compression around ~5K tokens
-      enabledExtensions: ['bash', 'file_edit', 'think', 'finish'],
-      model: {
-        provider: options.provider,
-        name: options.model,
-        supportsToolUse: true,
-      },
-    };
-
-    // Create registry and register built-in extensions
-    const registry = new ExtensionRegistry(sdkLogger);
-    registry.register(createBashExtension());
-    registry.register(createFileEditExtension());
-    registry.register(createThinkExtension());
-    registry.register(createFinishExtension());
-
-    const agent = new ConfuciusOrchestrator({
-      llm: new LLMClientAdapter(llmClient),
-      registry,
-      logger: sdkLogger,
-      artifacts: new MemoryArtifactStore(),
-      systemPrompt: DEFAULT_SYSTEM_PROMPT,
-      config,
-      workingDirectory: process.cwd(),
+program
+  .command('resume')
+  .description('Resume an interrupted run from its last checkpoint in .ralph/sessions/')
+  .argument('<sessionId>', 'The session to resume')
+  .action(async (sessionId: string) => {
+    await executeRun((agent, signal) => {
+      logger.agent('Confucius', `Resuming session ${sessionId}`);
+      return agent.resume(sessionId, { signal });
     });
-    
-    logger.agent('Confucius', `Starting task: "${task}"`);
-    const result = await agent.run(task);
-    
-    if (result.terminationReason === 'completed') {
-      logger.success('Task completed successfully');
-    } else {
-      logger.info(`Task ended: ${result.terminationReason}`);
+  });
+
+program
+  .command('chat')
+  .description('Interactive session: follow-up tasks share the same memory (/help lists commands)')
+  .action(async () => {
+    try {
+      const { options } = await resolveOptions(program);
+      await runChat(options);
+    } catch (error) {
+      logger.error(error instanceof Error ? error.message : String(error));
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command('config')
+  .description('Print the effective configuration: defaults, config files and flags merged')
+  .action(async () => {
+    try {
+      const { options, sources } = await resolveOptions(program);
+      const effective: Partial<CliOptions> = { ...options };
+      delete effective.apiKey;
+      delete effective.config;
+      process.stderr.write(
+        sources.length > 0 ? `Config files (lowest precedence first):\n${sources.map(s => `  ${s}`).join('\n')}\n` : 'No config files found\n'
+      );
+      process.stdout.write(`${JSON.stringify(effective, null, 2)}\n`);
+    } catch (error) {
+      logger.error(error instanceof Error ? error.message : String(error));
+      process.exitCode = 1;
+    }
+  });
+
+const artifactsCommand = program
+  .command('artifacts')
+  .description('List and export artifacts saved in .ralph/artifacts/');
+
+artifactsCommand
+  .command('list')
+  .description('List saved artifacts, oldest first')
+  .option('-s, --session <id>', 'Only artifacts from this session')
+  .action(async (options: { session?: string }) => {
+    try {
+      const store = new FileArtifactStore(sdkLogger, process.cwd());
+      const entries = (await store.listRecords({ sessionId: options.session })).map(e => e.record);
+      if (entries.length === 0) {
+        process.stderr.write('No artifacts found\n');
+        return;
+      }
+      for (const record of entries) {
+        const source = record.extension !== undefined ? ` from ${record.extension} (iteration ${record.iteration ?? '?'})` : '';
+        process.stdout.write(`${record.id}  ${record.name}  ${record.mimeType}  ${record.size} bytes  ${record.sessionId ?? '-'}${source}\n`);
+      }
+    } catch (error) {
+      logger.error(error instanceof Error ? error.message : String(error));
+      process.exitCode = 1;
+    }
+  });
+
+artifactsCommand
+  .command('export')
+  .description('Write an artifact\'s content to a file (default: its original name) or - for stdout')
+  .argument('<id>', 'Artifact ID')
+  .argument('[file]', 'Destination file, or - for stdout')
+  .action(async (id: string, file: string | undefined) => {
+    try {
+      const artifact = await new FileArtifactStore(sdkLogger, process.cwd()).get(id);
+      if (artifact === null) {
+        throw new Error(`No artifact with ID ${id}`);
+      }
+      if (artifact.content === undefined) {
+        throw new Error(`Artifact ${id} has no stored content${artifact.path !== undefined ? ` (it referred to ${artifact.path})` : ''}`);
+      }
+      if (file === '-') {
+        process.stdout.write(artifact.content);
+        return;
+      }
+      const destination = resolve(file ?? artifact.name);
+      await writeFile(destination, artifact.content);
+      logger.info(`Exported ${id} to ${relative(process.cwd(), destination)}`);
+    } catch (error) {
+      logger.error(error instanceof Error ? error.message : String(error));
+      process.exitCode = 1;
     }
   });
 
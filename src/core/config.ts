@@ -0,0 +1,413 @@
+/**
+ * Confucius SDK - Configuration Files
+ *
+ * Settings are layered, later layers winning:
+ *
+ * 1. Built-in defaults
+ * 2. User config: `$XDG_CONFIG_HOME/confucius/config.{json,ts}`
+ *    (`~/.config/confucius/` when XDG_CONFIG_HOME is unset)
+ * 3. Project config: `confucius.config.{json,ts}`, found by walking up from
+ *    the working directory to the project root (the first directory with a
+ *    `.git`), or the file given with `--config`
+ * 4. Command-line flags
+ *
+ * A `.ts` config default-exports its settings, ideally through
+ * `defineConfig()` for type checking. Relative paths inside a config file
+ * are resolved against the file's directory.
+ *
+ * @example
+ * // confucius.config.json
+ * {
+ *   "provider": "anthropic",
+ *   "model": "claude-sonnet-4-20250514",
+ *   "maxIterations": 25,
+ *   "extensions": ["bash", "file_edit", "think", "finish"],
+ *   "extensionOptions": { "bash": { "timeout": 120000 } },
+ *   "systemPromptFile": "prompts/agent.md"
+ * }
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import type { LLMTarget } from './llm.js';
+import type { JSONSchema } from '../sdk/types.js';
+import { validateSchema } from '../sdk/schema.js';
+import { DEFAULT_BLOCKED_PATTERNS, type BashExtensionOptions } from '../sdk/extensions/bash.js';
+import type { FileEditExtensionOptions } from '../sdk/extensions/file-edit.js';
+import type { CompressionStrategyName } from '../sdk/compression.js';
+
+/** Config file names, in order of preference */
+export const CONFIG_FILENAMES = ['confucius.config.ts', 'confucius.config.json'];
+
+/**
+ * ConfuciusConfig - Everything a config file (or the command line) can set.
+ */
+export interface ConfuciusConfig {
+  provider?: LLMTarget['provider'];
+  model?: string;
+
+  /** API endpoint override, e.g. for a local server */
+  baseUrl?: string;
+
+  /** Retries per provider for rate limits and server errors */
+  retries?: number;
+
+  /** Models to fail over to, in order, as `provider:model` */
+  fallback?: string[];
+
+  /** Maximum orchestrator iterations */
+  maxIterations?: number;
+
+  /** Token threshold for context compression. Default: derived from the context window */
+  compressionThreshold?: number;
+
+  /** Context window in tokens, for models the built-in registry doesn't know */
+  contextWindow?: number;
+
+  /** How older history is compressed. Default: summary */
+  compression?: CompressionStrategyName;
+
+  /** Tool outputs longer than this many characters are saved as artifacts. Default: 10000 */
+  maxResultLength?: number;
+
+  /** Stop the run after this many total tokens */
+  maxTokens?: number;
+
+  /** Stop the run after this estimated cost in USD */
+  maxCost?: number;
+
+  /** Use native function calling */
+  tools?: boolean;
+
+  /** Stream LLM output */
+  stream?: boolean;
+
+  /** How actions needing approval are handled */
+  approval?: 'prompt' | 'deny' | 'off';
+
+  /** JSON file of approval rules */
+  approvalRules?: string;
+
+  /** Built-in extensions to enable */
+  extensions?: string[];
+
+  /** Constructor options for the built-in extensions, by extension name */
+  extensionOptions?: {
+    /**
+     * Blocked patterns may be given as regex source strings. They are added
+     * to the built-in safety patterns unless replaceDefaultBlockedPatterns
+     * is true.
+     */
+    bash?: Omit<BashExtensionOptions, 'blockedPatterns'> & {
+      blockedPatterns?: Array<string | RegExp>;
+      replaceDefaultBlockedPatterns?: boolean;
+    };
+    file_edit?: FileEditExtensionOptions;
+  };
+
+  /** File whose contents replace the default system prompt */
+  systemPromptFile?: string;
+}
+
+/**
+ * LoadedConfig - The merged config and the files it came from.
+ */
+export interface LoadedConfig {
+  config: ConfuciusConfig;
+
+  /** Config files applied, lowest precedence first */
+  sources: string[];
+}
+
+/**
+ * Options for locating config files.
+ */
+export interface LoadConfigOptions {
+  /** Where to start looking for a project config. Default: process.cwd() */
+  cwd?: string;
+
+  /** Explicit project config file; skips discovery */
+  configFile?: string;
+
+  /** Directory holding the user config. Default: XDG config dir */
+  userConfigDir?: string;
+}
+
+/** Defaults applied beneath every config file */
+export const DEFAULT_CONFIG: ConfuciusConfig = {
+  provider: 'openrouter',
+  model: 'anthropic/claude-3.5-sonnet',
+  maxIterations: 10,
+  tools: true,
+  stream: true,
+  approval: 'prompt',
+  extensions: ['bash', 'file_edit', 'think', 'finish', 'artifact_read'],
+};
+
+const CONFIG_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    provider: { type: 'string', enum: ['openai', 'anthropic', 'openrouter', 'local'] },
+    model: { type: 'string' },
+    baseUrl: { type: 'string' },
+    retries: { type: 'integer' },
+    fallback: { type: 'array', items: { type: 'string' } },
+    maxIterations: { type: 'integer' },
+    compressionThreshold: { type: 'number' },
+    contextWindow: { type: 'integer' },
+    compression: { type: 'string', enum: ['summary', 'elide-tool-output', 'importance', 'hierarchical'] },
+    maxResultLength: { type: 'integer' },
+    maxTokens: { type: 'number' },
+    maxCost: { type: 'number' },
+    tools: { type: 'boolean' },
+    stream: { type: 'boolean' },
+    approval: { type: 'string', enum: ['prompt', 'deny', 'off'] },
+    approvalRules: { type: 'string' },
+    extensions: { type: 'array', items: { type: 'string' } },
+    extensionOptions: {
+      type: 'object',
+      properties: {
+        bash: {
+          type: 'object',
+          properties: {
+            cwd: { type: 'string' },
+            timeout: { type: 'number' },
+            maxOutputLength: { type: 'number' },
+            blockedPatterns: { type: 'array' },
+            replaceDefaultBlockedPatterns: { type: 'boolean' },
+            usePowerShell: { type: 'boolean' },
+          },
+          additionalProperties: false,
+        },
+        file_edit: {
+          type: 'object',
+          properties: {
+            basePath: { type: 'string' },
+            allowedExtensions: { type: 'array', items: { type: 'string' } },
+            blockedPaths: { type: 'array', items: { type: 'string' } },
+            maxFileSize: { type: 'number' },
+          },
+          additionalProperties: false,
+        },
+      },
+      additionalProperties: false,
+    },
+    systemPromptFile: { type: 'string' },
+  },
+  additionalProperties: false,
+};
+
+/**
+ * Identity helper that gives `confucius.config.ts` files type checking.
+ */
+export function defineConfig(config: ConfuciusConfig): ConfuciusConfig {
+  return config;
+}
+
+/**
+ * Directory holding the user-level config.
+ */
+export function getUserConfigDir(): string {
+  const base = process.env.XDG_CONFIG_HOME ?? path.join(os.homedir(), '.config');
+  return path.join(base, 'confucius');
+}
+
+/**
+ * Find the first config file in a directory.
+ */
+async function findConfigIn(dir: string, names: string[]): Promise<string | null> {
+  for (const name of names) {
+    const filepath = path.join(dir, name);
+    if (await exists(filepath)) {
+      return filepath;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the project config by walking up from `cwd`, stopping at the
+ * project root (the first directory containing `.git`).
+ */
+export async function findProjectConfig(cwd: string): Promise<string | null> {
+  let dir = path.resolve(cwd);
+  for (;;) {
+    const found = await findConfigIn(dir, CONFIG_FILENAMES);
+    if (found !== null) {
+      return found;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir || await exists(path.join(dir, '.git'))) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Load and validate a single config file. Relative paths in it are
+ * resolved against its directory.
+ *
+ * @throws If the file can't be read, parsed or fails validation
+ */
+export async function loadConfigFile(filepath: string): Promise<ConfuciusConfig> {
+  const raw = filepath.endsWith('.json')
+    ? JSON.parse(await fs.readFile(filepath, 'utf-8')) as unknown
+    : await importConfigModule(filepath);
+
+  const problems = validateSchema(raw, CONFIG_SCHEMA, 'config');
+  if (problems.length > 0) {
+    throw new Error(`Invalid config in ${filepath}:\n${problems.map(p => `- ${p}`).join('\n')}`);
+  }
+
+  const config = { ...(raw as ConfuciusConfig) };
+  const dir = path.dirname(filepath);
+  if (config.approvalRules !== undefined) {
+    config.approvalRules = path.resolve(dir, config.approvalRules);
+  }
+  if (config.systemPromptFile !== undefined) {
+    config.systemPromptFile = path.resolve(dir, config.systemPromptFile);
+  }
+  if (config.extensionOptions !== undefined) {
+    const { bash, file_edit: fileEdit } = config.extensionOptions;
+    config.extensionOptions = { ...config.extensionOptions };
+    if (bash?.cwd !== undefined) {
+      config.extensionOptions.bash = { ...bash, cwd: path.resolve(dir, bash.cwd) };
+    }
+    if (fileEdit?.basePath !== undefined) {
+      config.extensionOptions.file_edit = { ...fileEdit, basePath: path.resolve(dir, fileEdit.basePath) };
+    }
+  }
+  return config;
+}
+
+/**
+ * Import a config module and return its default export.
+ *
+ * Node versions without built-in TypeScript support can't import a `.ts`
+ * file directly; in that case it is transpiled with the `typescript`
+ * package (when installed) to a temporary module beside the original, so
+ * relative imports keep working.
+ */
+async function importConfigModule(filepath: string): Promise<unknown> {
+  try {
+    return defaultExport(await import(pathToFileURL(filepath).href));
+  } catch (error) {
+    const code = (error as { code?: unknown }).code;
+    if (code !== 'ERR_UNKNOWN_FILE_EXTENSION') {
+      throw error;
+    }
+  }
+
+  let ts: typeof import('typescript');
+  try {
+    ts = (await import('typescript')).default;
+  } catch {
+    throw new Error(`Loading ${filepath} needs the "typescript" package or Node 22.6+; use confucius.config.json instead`);
+  }
+
+  const source = await fs.readFile(filepath, 'utf-8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+    fileName: filepath,
+  });
+  const tmpPath = path.join(path.dirname(filepath), `.${path.basename(filepath)}.${process.pid}.mjs`);
+  await fs.writeFile(tmpPath, outputText, 'utf-8');
+  try {
+    return defaultExport(await import(pathToFileURL(tmpPath).href));
+  } finally {
+    await fs.rm(tmpPath, { force: true });
+  }
+}
+
+function defaultExport(module: unknown): unknown {
+  return (module as { default?: unknown }).default;
+}
+
+/**
+ * Merge config layers; later layers win. `extensionOptions` is merged per
+ * extension, so a project can change one bash option and keep the user's
+ * others. Undefined values never override.
+ */
+export function mergeConfig(...layers: ConfuciusConfig[]): ConfuciusConfig {
+  const merged: ConfuciusConfig = {};
+  for (const layer of layers) {
+    const defined = Object.fromEntries(
+      Object.entries(layer).filter(([, value]) => value !== undefined)
+    ) as ConfuciusConfig;
+    const extensionOptions = mergeExtensionOptions(merged.extensionOptions, defined.extensionOptions);
+    Object.assign(merged, defined);
+    if (extensionOptions !== undefined) {
+      merged.extensionOptions = extensionOptions;
+    }
+  }
+  return merged;
+}
+
+function mergeExtensionOptions(
+  base: ConfuciusConfig['extensionOptions'],
+  override: ConfuciusConfig['extensionOptions']
+): ConfuciusConfig['extensionOptions'] {
+  if (base === undefined || override === undefined) {
+    return override ?? base;
+  }
+  return {
+    bash: base.bash !== undefined || override.bash !== undefined ? { ...base.bash, ...override.bash } : undefined,
+    file_edit: base.file_edit !== undefined || override.file_edit !== undefined
+      ? { ...base.file_edit, ...override.file_edit }
+      : undefined,
+  };
+}
+
+/**
+ * Load the defaults, user config and project config, merged.
+ * Command-line flags are applied on top by the caller with mergeConfig().
+ */
+export async function loadConfig(options: LoadConfigOptions = {}): Promise<LoadedConfig> {
+  const sources: string[] = [];
+  const layers: ConfuciusConfig[] = [DEFAULT_CONFIG];
+
+  const userConfig = await findConfigIn(options.userConfigDir ?? getUserConfigDir(), ['config.ts', 'config.json']);
+  const projectConfig = options.configFile !== undefined
+    ? path.resolve(options.cwd ?? process.cwd(), options.configFile)
+    : await findProjectConfig(options.cwd ?? process.cwd());
+
+  for (const filepath of [userConfig, projectConfig]) {
+    if (filepath !== null) {
+      layers.push(await loadConfigFile(filepath));
+      sources.push(filepath);
+    }
+  }
+
+  return { config: mergeConfig(...layers), sources };
+}
+
+/**
+ * Bash options from a config, with string patterns compiled to RegExps and
+ * added to the built-in safety patterns (or replacing them, if
+ * replaceDefaultBlockedPatterns is set).
+ */
+export function toBashOptions(options: NonNullable<ConfuciusConfig['extensionOptions']>['bash']): BashExtensionOptions {
+  if (options === undefined) {
+    return {};
+  }
+  const { blockedPatterns, replaceDefaultBlockedPatterns, ...rest } = options;
+  const compiled = (blockedPatterns ?? []).map(p => typeof p === 'string' ? new RegExp(p) : p);
+  if (replaceDefaultBlockedPatterns === true) {
+    return { ...rest, blockedPatterns: compiled };
+  }
+  return blockedPatterns !== undefined
+    ? { ...rest, blockedPatterns: [...DEFAULT_BLOCKED_PATTERNS, ...compiled] }
+    : rest;
+}
+
+async function exists(filepath: string): Promise<boolean> {
+  try {
+    await fs.access(filepath);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -4,8 +4,22 @@
  * Core infrastructure: LLM providers, logging, configuration.
  */
 
-export { LLMClient } from './llm.js';
-export type { LLMConfig } from './llm.js';
+export { LLMClient, DEFAULT_LOCAL_BASE_URL } from './llm.js';
+export type { LLMConfig, LLMTarget } from './llm.js';
+export { DEFAULT_RETRY_CONFIG, isRetryableError, getRetryAfterMs, computeBackoffMs } from './retry.js';
+export type { RetryConfig } from './retry.js';
+export {
+  DEFAULT_CONFIG,
+  CONFIG_FILENAMES,
+  defineConfig,
+  loadConfig,
+  loadConfigFile,
+  findProjectConfig,
+  getUserConfigDir,
+  mergeConfig,
+  toBashOptions,
+} from './config.js';
+export type { ConfuciusConfig, LoadedConfig, LoadConfigOptions } from './config.js';
 
 export { Logger, logger } from './logger.js';
 export type { LogLevel } from './logger.js';
@@ -1,60 +1,692 @@
 import OpenAI from 'openai';
 import Anthropic from '@anthropic-ai/sdk';
 import { logger } from './logger.js';
+import {
+  DEFAULT_RETRY_CONFIG,
+  computeBackoffMs,
+  getRetryAfterMs,
+  isAbortError,
+  isRetryableError,
+  sleep,
+  type RetryConfig,
+} from './retry.js';
+import type { Message, LLMResponse, ToolCall, ToolDefinition } from '../sdk/types.js';
+import { resolveModelLimits } from '../sdk/models.js';
 
-export interface LLMConfig {
-  provider: 'openai' | 'anthropic' | 'openrouter';
+/** Default endpoint for the `local` provider (Ollama's OpenAI-compatible API) */
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+/** Response limit for Anthropic models the model registry doesn't know */
+const DEFAULT_MAX_TOKENS = 4096;
+
+/**
+ * Largest response requested without streaming. The Anthropic SDK rejects
+ * non-streaming requests whose max_tokens could outlast its ten-minute
+ * request timeout, so longer responses need streaming.
+ */
+const NONSTREAMING_MAX_TOKENS = 21_333;
+
+/** Request timeout for Anthropic clients */
+const ANTHROPIC_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * LLMTarget - A provider and model to send requests to.
+ *
+ * `local` talks to any OpenAI-compatible server (llama.cpp server, Ollama,
+ * vLLM) at `baseUrl` and does not need an API key.
+ */
+export interface LLMTarget {
+  provider: 'openai' | 'anthropic' | 'openrouter' | 'local';
   model: string;
   apiKey?: string;
   baseUrl?: string;
 }
 
+export interface LLMConfig extends LLMTarget {
+  /** Backoff policy for transient errors (429, 5xx, network) */
+  retry?: RetryConfig;
+
+  /** Tried in order once the primary target has exhausted its retries */
+  fallbacks?: LLMTarget[];
+}
+
+/**
+ * LLMRequestOptions - Per-request options for LLMClient.
+ */
+export interface LLMRequestOptions {
+  /** Native tools to offer the model (function calling) */
+  tools?: ToolDefinition[];
+
+  /** Aborts the request (and any open stream) when signalled */
+  signal?: AbortSignal;
+
+  /** Streaming only: called with each native tool call once its arguments are complete */
+  onToolCall?: (call: ToolCall) => void;
+
+  /**
+   * Most tokens the response may use (Anthropic; OpenAI applies the
+   * model's own limit). Default: the model's maxOutputTokens from the
+   * model registry, or 4096 for unknown models
+   */
+  maxTokens?: number;
+}
+
+/**
+ * A target together with its SDK client.
+ */
+interface Backend {
+  target: LLMTarget;
+  openai?: OpenAI;
+  anthropic?: Anthropic;
+}
+
 export class LLMClient {
-  private openai?: OpenAI;
-  private anthropic?: Anthropic;
+  private backends: Backend[];
+  private retry: Required<RetryConfig>;
 
   constructor(private config: LLMConfig) {
-    if (config.provider === 'openai') {
-      this.openai = new OpenAI({ apiKey: config.apiKey || process.env.OPENAI_API_KEY });
-    } else if (config.provider === 'openrouter') {
-      this.openai = new OpenAI({
-        apiKey: config.apiKey || process.env.OPENROUTER_API_KEY,
-        baseURL: config.baseUrl || 'https://openrouter.ai/api/v1',
+    this.backends = [config, ...(config.fallbacks ?? [])].map(createBackend);
+    this.retry = { ...DEFAULT_RETRY_CONFIG, ...config.retry };
+  }
+
+  /**
+   * Send a conversation to the configured provider.
+   *
+   * @param system - System prompt
+   * @param messages - Full conversation history, or a single user message
+   * @returns The model's text output
+   */
+  async chat(system: string, messages: Message[] | string): Promise<string> {
+    const response = await this.complete(system, messages);
+    return response.content;
+  }
+
+  /**
+   * Send a conversation and return the provider-reported usage and stop reason
+   * alongside the text output.
+   *
+   * @param system - System prompt
+   * @param messages - Full conversation history, or a single user message
+   * @param options - Native tools to offer the model and an optional AbortSignal
+   */
+  async complete(
+    system: string,
+    messages: Message[] | string,
+    options: LLMRequestOptions = {}
+  ): Promise<LLMResponse> {
+    const history: Message[] = typeof messages === 'string'
+      ? [{ role: 'user', content: messages }]
+      : messages;
+
+    logger.debug(`Sending ${history.length} messages to ${this.config.provider}...`);
+    return this.withFailover('complete', options.signal, async (backend) => {
+      if (backend.openai) {
+        const res = await backend.openai.chat.completions.create({
+          model: backend.target.model,
+          messages: toOpenAIMessages(system, history),
+          ...toOpenAITools(options.tools),
+        }, { signal: options.signal });
+        const choice = res.choices[0];
+        const content = choice?.message?.content || '';
+        const toolCalls = (choice?.message?.tool_calls ?? [])
+          .filter(call => call.type === 'function')
+          .map(call => ({
+            id: call.id,
+            name: call.function.name,
+            arguments: parseToolArguments(call.function.arguments),
+          }));
+        logger.debug(`LLM response: ${content.substring(0, 200)}${content.length > 200 ? '...' : ''}`);
+        return {
+          content,
+          usage: {
+            promptTokens: res.usage?.prompt_tokens ?? 0,
+            completionTokens: res.usage?.completion_tokens ?? 0,
+            totalTokens: res.usage?.total_tokens ?? 0,
+          },
+          stopReason: mapOpenAIFinishReason(choice?.finish_reason),
+          toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        };
+      } else {
+        const { system: fullSystem, messages: anthropicMessages } = toAnthropicMessages(system, history);
+        const res = await backend.anthropic!.messages.create({
+          model: backend.target.model,
+          system: fullSystem,
+          messages: anthropicMessages,
+          max_tokens: Math.min(resolveMaxTokens(backend.target.model, options.maxTokens), NONSTREAMING_MAX_TOKENS),
+          ...toAnthropicTools(options.tools),
+        }, { signal: options.signal });
+        const response = fromAnthropicMessage(res);
+        logger.debug(`LLM response: ${response.content.substring(0, 200)}${response.content.length > 200 ? '...' : ''}`);
+        return response;
+      }
+    });
+  }
+
+  /**
+   * Stream a conversation, calling onToken for each text delta as it arrives.
+   *
+   * @param system - System prompt
+   * @param messages - Full conversation history, or a single user message
+   * @param onToken - Called with each chunk of generated text
+   * @param options - Native tools to offer the model and an optional AbortSignal
+   * @returns The complete response once the stream ends
+   */
+  async stream(
+    system: string,
+    messages: Message[] | string,
+    onToken: (token: string) => void,
+    options: LLMRequestOptions = {}
+  ): Promise<LLMResponse> {
+    const history: Message[] = typeof messages === 'string'
+      ? [{ role: 'user', content: messages }]
+      : messages;
+
+    logger.debug(`Streaming ${history.length} messages from ${this.config.provider}...`);
+
+    // Once text has reached the caller a retry would repeat it, so only
+    // failures before the first token are retried
+    let emitted = false;
+    const emit = (token: string): void => {
+      emitted = true;
+      onToken(token);
+    };
+    const emitToolCall = (call: ToolCall): void => {
+      emitted = true;
+      options.onToolCall?.(call);
+    };
+
+    return this.withFailover('stream', options.signal, async (backend) => {
+      if (backend.openai) {
+        const stream = await backend.openai.chat.completions.create({
+          model: backend.target.model,
+          messages: toOpenAIMessages(system, history),
+          stream: true,
+          stream_options: { include_usage: true },
+          ...toOpenAITools(options.tools),
+        }, { signal: options.signal });
+
+        let content = '';
+        const toolCallParts: Array<{ id: string; name: string; arguments: string }> = [];
+        let finishReason: string | null | undefined;
+        const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+        // Tool calls stream one after another, so a call is complete once
+        // a later one starts (or the stream ends)
+        let completedCalls = 0;
+        const completeCallsBefore = (index: number): void => {
+          for (; completedCalls < index; completedCalls++) {
+            const part = toolCallParts[completedCalls] as (typeof toolCallParts)[number] | undefined;
+            if (part !== undefined) {
+              emitToolCall({ id: part.id, name: part.name, arguments: parseToolArguments(part.arguments) });
+            }
+          }
+        };
+
+        for await (const chunk of stream) {
+          const choice = chunk.choices[0];
+          const delta = choice?.delta?.content;
+          if (delta !== undefined && delta !== null && delta.length > 0) {
+            content += delta;
+            emit(delta);
+          }
+          for (const part of choice?.delta?.tool_calls ?? []) {
+            completeCallsBefore(part.index);
+            const entry = toolCallParts[part.index] ?? { id: '', name: '', arguments: '' };
+            entry.id += part.id ?? '';
+            entry.name += part.function?.name ?? '';
+            entry.arguments += part.function?.arguments ?? '';
+            toolCallParts[part.index] = entry;
+          }
+          if (choice?.finish_reason !== undefined && choice.finish_reason !== null) {
+            finishReason = choice.finish_reason;
+          }
+          if (chunk.usage) {
+            usage.promptTokens = chunk.usage.prompt_tokens;
+            usage.completionTokens = chunk.usage.completion_tokens;
+            usage.totalTokens = chunk.usage.total_tokens;
+          }
+        }
+
+        completeCallsBefore(toolCallParts.length);
+
+        const toolCalls = toolCallParts
+          .filter(part => part !== undefined)
+          .map(part => ({ id: part.id, name: part.name, arguments: parseToolArguments(part.arguments) }));
+
+        logger.debug(`LLM streamed response: ${content.length} chars`);
+        return {
+          content,
+          usage,
+          stopReason: mapOpenAIFinishReason(finishReason),
+          toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        };
+      } else {
+        const { system: fullSystem, messages: anthropicMessages } = toAnthropicMessages(system, history);
+        const stream = backend.anthropic!.messages.stream({
+          model: backend.target.model,
+          system: fullSystem,
+          messages: anthropicMessages,
+          max_tokens: resolveMaxTokens(backend.target.model, options.maxTokens),
+          ...toAnthropicTools(options.tools),
+        }, { signal: options.signal });
+        stream.on('text', (delta) => emit(delta));
+        stream.on('contentBlock', (block) => {
+          if (block.type === 'tool_use') {
+            emitToolCall(toToolCall(block));
+          }
+        });
+
+        const response = fromAnthropicMessage(await stream.finalMessage());
+        logger.debug(`LLM streamed response: ${response.content.length} chars`);
+        return response;
+      }
+    }, () => !emitted);
+  }
+
+  /**
+   * Run a request against each target in turn, retrying transient errors
+   * with exponential backoff. Every failed attempt is logged.
+   *
+   * @param label - Request kind, for logs
+   * @param signal - Stops retrying (and waiting) when aborted
+   * @param request - Sends the request to one target
+   * @param canRetry - Returns false once retrying is no longer safe
+   */
+  private async withFailover<T>(
+    label: string,
+    signal: AbortSignal | undefined,
+    request: (backend: Backend) => Promise<T>,
+    canRetry: () => boolean = () => true
+  ): Promise<T> {
+    const maxAttempts = this.retry.maxRetries + 1;
+    let lastError: unknown;
+
+    for (const [index, backend] of this.backends.entries()) {
+      const name = `${backend.target.provider}/${backend.target.model}`;
+      if (index > 0) {
+        logger.info(`Failing over to ${name}`);
+      }
+
+      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        try {
+          logger.debug(`LLM ${label} attempt ${attempt}/${maxAttempts} via ${name}`);
+          return await request(backend);
+        } catch (err) {
+          lastError = err;
+          const failure = `LLM ${label} attempt ${attempt}/${maxAttempts} via ${name} failed: ${err instanceof Error ? err.message : String(err)}`;
+
+          if (isAbortError(err) || signal?.aborted === true || !canRetry()) {
+            logger.error(failure);
+            throw err;
+          }
+          if (!isRetryableError(err) || attempt === maxAttempts) {
+            logger.error(failure);
+            break;
+          }
+
+          const delay = computeBackoffMs(attempt, this.retry, getRetryAfterMs(err));
+          logger.info(`${failure}; retrying in ${delay}ms`);
+          await sleep(delay, signal);
+        }
+      }
+    }
+
+    throw lastError;
+  }
+}
+
+/**
+ * Create the SDK client for a target. SDK-level retries are disabled so
+ * LLMClient.withFailover controls (and logs) every attempt.
+ */
+function createBackend(target: LLMTarget): Backend {
+  if (target.provider === 'openai') {
+    return {
+      target,
+      openai: new OpenAI({
+        apiKey: target.apiKey || process.env.OPENAI_API_KEY,
+        baseURL: target.baseUrl,
+        maxRetries: 0,
+      }),
+    };
+  }
+  if (target.provider === 'local') {
+    return {
+      target,
+      openai: new OpenAI({
+        // Local servers ignore the key, but the SDK refuses to start without one
+        apiKey: target.apiKey ?? process.env.LOCAL_LLM_API_KEY ?? 'local',
+        baseURL: target.baseUrl ?? process.env.LOCAL_LLM_BASE_URL ?? DEFAULT_LOCAL_BASE_URL,
+        maxRetries: 0,
+      }),
+    };
+  }
+  if (target.provider === 'openrouter') {
+    return {
+      target,
+      openai: new OpenAI({
+        apiKey: target.apiKey || process.env.OPENROUTER_API_KEY,
+        baseURL: target.baseUrl || 'https://openrouter.ai/api/v1',
+        maxRetries: 0,
         defaultHeaders: {
           'HTTP-Referer': 'https://github.com/Aldine/confucius-agent',
           'X-Title': 'Confucius Agent',
         },
-      });
-    } else {
-      this.anthropic = new Anthropic({ apiKey: config.apiKey || process.env.ANTHROPIC_API_KEY });
+      }),
+    };
+  }
+  return {
+    target,
+    anthropic: new Anthropic({
+      apiKey: target.apiKey || process.env.ANTHROPIC_API_KEY,
+      baseURL: target.baseUrl,
+      maxRetries: 0,
+      // Set explicitly: without it the SDK also applies per-model limits
+      // below NONSTREAMING_MAX_TOKENS
+      timeout: ANTHROPIC_TIMEOUT_MS,
+    }),
+  };
+}
+
+/**
+ * Response limit for an Anthropic request: the requested limit, else the
+ * model's maximum output from the model registry.
+ */
+function resolveMaxTokens(model: string, requested: number | undefined): number {
+  return requested ?? resolveModelLimits(model)?.maxOutputTokens ?? DEFAULT_MAX_TOKENS;
+}
+
+/**
+ * Map an OpenAI / OpenRouter finish_reason onto LLMResponse.stopReason.
+ */
+function mapOpenAIFinishReason(reason: string | null | undefined): LLMResponse['stopReason'] {
+  switch (reason) {
+    case 'length':
+      return 'max_tokens';
+    case 'tool_calls':
+    case 'function_call':
+      return 'tool_use';
+    case 'stop':
+    case 'content_filter':
+    default:
+      return 'end_turn';
+  }
+}
+
+/**
+ * Map an Anthropic stop_reason onto LLMResponse.stopReason.
+ */
+function mapAnthropicStopReason(reason: Anthropic.StopReason | null): LLMResponse['stopReason'] {
+  switch (reason) {
+    case 'max_tokens':
+      return 'max_tokens';
+    case 'tool_use':
+      return 'tool_use';
+    case 'stop_sequence':
+      return 'stop_sequence';
+    case 'end_turn':
+    case 'pause_turn':
+    case 'refusal':
+    default:
+      return 'end_turn';
+  }
+}
+
+/**
+ * Decode a tool call's JSON arguments, tolerating malformed output.
+ */
+function parseToolArguments(raw: string): Record<string, unknown> {
+  try {
+    const parsed: unknown = JSON.parse(raw.length > 0 ? raw : '{}');
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : {};
+  } catch {
+    logger.debug(`Could not parse tool call arguments: ${raw.substring(0, 200)}`);
+    return {};
+  }
+}
+
+/**
+ * Build the OpenAI `tools` request field.
+ */
+function toOpenAITools(tools: ToolDefinition[] | undefined): { tools?: OpenAI.Chat.ChatCompletionTool[] } {
+  if (!tools || tools.length === 0) {
+    return {};
+  }
+  return {
+    tools: tools.map(tool => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.inputSchema,
+      },
+    })),
+  };
+}
+
+/**
+ * Build the Anthropic `tools` request field.
+ */
+function toAnthropicTools(tools: ToolDefinition[] | undefined): { tools?: Anthropic.Tool[] } {
+  if (!tools || tools.length === 0) {
+    return {};
+  }
+  return {
+    tools: tools.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: { ...tool.inputSchema, type: 'object' },
+    })),
+  };
+}
+
+/**
+ * Convert an Anthropic tool_use block into a ToolCall.
+ */
+function toToolCall(block: Anthropic.ToolUseBlock): ToolCall {
+  return {
+    id: block.id,
+    name: block.name,
+    arguments: typeof block.input === 'object' && block.input !== null
+      ? (block.input as Record<string, unknown>)
+      : {},
+  };
+}
+
+/**
+ * Convert an Anthropic message into an LLMResponse.
+ */
+function fromAnthropicMessage(res: Anthropic.Message): LLMResponse {
+  const content = res.content
+    .map(block => (block.type === 'text' ? block.text : ''))
+    .join('');
+  const toolCalls: ToolCall[] = [];
+  for (const block of res.content) {
+    if (block.type === 'tool_use') {
+      toolCalls.push(toToolCall(block));
     }
   }
 
-  async chat(system: string, user: string): Promise<string> {
-    logger.debug(`Sending to ${this.config.provider}...`);
-    try {
-      if (this.config.provider === 'openai' || this.config.provider === 'openrouter') {
-        const res = await this.openai!.chat.completions.create({
-          model: this.config.model,
-          messages: [{ role: 'system', content: system }, { role: 'user', content: user }],
-        });
-        const content = res.choices[0]?.message?.content || '';
-        logger.debug(`LLM response: ${content.substring(0, 200)}${content.length > 200 ? '...' : ''}`);
-        return content;
-      } else {
-        const res = await this.anthropic!.messages.create({
-          model: this.config.model,
-          system: system,
-          messages: [{ role: 'user', content: user }],
-          max_tokens: 4096,
-        });
-        const content = res.content[0].type === 'text' ? res.content[0].text : '';
-        logger.debug(`LLM response: ${content.substring(0, 200)}${content.length > 200 ? '...' : ''}`);
-        return content;
+  return {
+    content,
+    usage: {
+      promptTokens: res.usage.input_tokens,
+      completionTokens: res.usage.output_tokens,
+      totalTokens: res.usage.input_tokens + res.usage.output_tokens,
+    },
+    stopReason: mapAnthropicStopReason(res.stop_reason),
+    toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+  };
+}
+
+/**
+ * Render a tool observation as plain text.
+ *
+ * Used for results of XML-tag actions, which have no tool_call_id to pair a
+ * `tool` role message with. They are sent back as user turns labelled with
+ * the tool that produced them.
+ */
+function formatToolMessage(message: Message): string {
+  const label = message.toolName !== undefined ? `[${message.toolName} output]` : '[tool output]';
+  return `${label}\n${message.content}`;
+}
+
+/**
+ * Result sent for a native tool call with no result in the history, e.g.
+ * when the run was cancelled before the call was executed. Both APIs reject
+ * a tool call that is left unanswered.
+ */
+const UNANSWERED_TOOL_CALL = 'Error: no result was recorded for this tool call';
+
+/**
+ * Map SDK messages onto the OpenAI / OpenRouter chat format.
+ *
+ * System messages from the history (session scope, compression summaries)
+ * are kept in place; OpenAI accepts system turns anywhere in the list.
+ * Native tool calls and their results use the tool_calls / tool roles, as
+ * long as the call they answer is still in the history (compression may
+ * have dropped it); otherwise the result is sent as text. Calls still
+ * unanswered when another message follows get an error result.
+ */
+function toOpenAIMessages(system: string, messages: Message[]): OpenAI.Chat.ChatCompletionMessageParam[] {
+  const result: OpenAI.Chat.ChatCompletionMessageParam[] = [{ role: 'system', content: system }];
+  const openCalls = new Set<string>();
+
+  const closeOpenCalls = (): void => {
+    for (const id of openCalls) {
+      result.push({ role: 'tool', tool_call_id: id, content: UNANSWERED_TOOL_CALL });
+    }
+    openCalls.clear();
+  };
+
+  for (const message of messages) {
+    if (message.role !== 'tool' || message.toolCallId === undefined || !openCalls.has(message.toolCallId)) {
+      closeOpenCalls();
+    }
+
+    switch (message.role) {
+      case 'system':
+        result.push({ role: 'system', content: message.content });
+        break;
+      case 'assistant':
+        if (message.toolCalls && message.toolCalls.length > 0) {
+          message.toolCalls.forEach(call => openCalls.add(call.id));
+          result.push({
+            role: 'assistant',
+            content: message.content.length > 0 ? message.content : null,
+            tool_calls: message.toolCalls.map(call => ({
+              id: call.id,
+              type: 'function',
+              function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+            })),
+          });
+        } else {
+          result.push({ role: 'assistant', content: message.content });
+        }
+        break;
+      case 'tool':
+        if (message.toolCallId !== undefined && openCalls.delete(message.toolCallId)) {
+          result.push({ role: 'tool', tool_call_id: message.toolCallId, content: message.content });
+        } else {
+          result.push({ role: 'user', content: formatToolMessage(message) });
+        }
+        break;
+      case 'user':
+      default:
+        result.push({ role: 'user', content: message.content });
+        break;
+    }
+  }
+
+  closeOpenCalls();
+  return result;
+}
+
+/**
+ * Map SDK messages onto the Anthropic Messages format.
+ *
+ * Anthropic takes a single system string and requires the conversation to
+ * start with a user turn and alternate roles. Leading system messages are
+ * folded into the system prompt, later ones (e.g. compression summaries)
+ * become user turns, and consecutive turns of the same role are merged.
+ * Native tool calls become tool_use blocks and their results tool_result
+ * blocks, when the call is still in the history. Tool results open the
+ * user turn they are merged into, and calls left unanswered when the next
+ * assistant turn starts get an error result.
+ */
+function toAnthropicMessages(
+  system: string,
+  messages: Message[]
+): { system: string; messages: Anthropic.MessageParam[] } {
+  const systemParts = [system];
+  const result: Anthropic.MessageParam[] = [];
+  const openCalls = new Set<string>();
+
+  const pushBlocks = (role: 'user' | 'assistant', blocks: Anthropic.ContentBlockParam[]): void => {
+    const last = result[result.length - 1];
+    if (last !== undefined && last.role === role && Array.isArray(last.content)) {
+      const merged = [...last.content, ...blocks];
+      last.content = [
+        ...merged.filter(block => block.type === 'tool_result'),
+        ...merged.filter(block => block.type !== 'tool_result'),
+      ];
+    } else {
+      result.push({ role, content: blocks });
+    }
+  };
+
+  const closeOpenCalls = (): void => {
+    if (openCalls.size === 0) {
+      return;
+    }
+    pushBlocks('user', [...openCalls].map(id => ({
+      type: 'tool_result' as const,
+      tool_use_id: id,
+      content: UNANSWERED_TOOL_CALL,
+      is_error: true,
+    })));
+    openCalls.clear();
+  };
+
+  for (const message of messages) {
+    if (message.role === 'system' && result.length === 0) {
+      systemParts.push(message.content);
+      continue;
+    }
+
+    const role: 'user' | 'assistant' = message.role === 'assistant' ? 'assistant' : 'user';
+    if (role === 'assistant' && result[result.length - 1]?.role !== 'assistant') {
+      closeOpenCalls();
+    }
+    const blocks: Anthropic.ContentBlockParam[] = [];
+
+    if (message.role === 'tool' && message.toolCallId !== undefined && openCalls.delete(message.toolCallId)) {
+      blocks.push({ type: 'tool_result', tool_use_id: message.toolCallId, content: message.content });
+    } else {
+      const text = message.role === 'tool' ? formatToolMessage(message) : message.content;
+      if (text.length > 0) {
+        blocks.push({ type: 'text', text });
+      }
+    }
+
+    if (message.role === 'assistant') {
+      for (const call of message.toolCalls ?? []) {
+        openCalls.add(call.id);
+        blocks.push({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments });
       }
-    } catch (err: any) {
-      logger.error(`LLM Error: ${err.message}`);
-      throw err;
+    }
+
+    if (blocks.length > 0) {
+      pushBlocks(role, blocks);
     }
   }
+  closeOpenCalls();
+
+  if (result.length === 0 || result[0].role !== 'user') {
+    result.unshift({ role: 'user', content: '(continue)' });
+  }
+
+  return { system: systemParts.join('\n\n'), messages: result };
 }
@@ -5,6 +5,7 @@ export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 export class Logger {
   private static instance: Logger;
   private level: LogLevel = 'info';
+  private toStderr = false;
 
   private constructor() {}
 
@@ -15,11 +16,19 @@ export class Logger {
 
   setLevel(level: LogLevel) { this.level = level; }
 
-  debug(msg: string) { if (this.level === 'debug') console.log(chalk.gray('[DEBUG] ' + msg)); }
-  info(msg: string) { if (this.level !== 'error') console.log(chalk.blue('[INFO] ') + msg); }
-  success(msg: string) { console.log(chalk.green('[SUCCESS] ') + msg); }
+  /** Send every log line to stderr, keeping stdout for machine-readable output */
+  useStderr(): void { this.toStderr = true; }
+
+  debug(msg: string) { if (this.level === 'debug') this.write(chalk.gray('[DEBUG] ' + msg)); }
+  info(msg: string) { if (this.level !== 'error') this.write(chalk.blue('[INFO] ') + msg); }
+  success(msg: string) { this.write(chalk.green('[SUCCESS] ') + msg); }
   error(msg: string) { console.error(chalk.red('[ERROR] ') + msg); }
-  agent(name: string, msg: string) { console.log(chalk.magenta(`[${name}]`) + ' ' + msg); }
+  agent(name: string, msg: string) { this.write(chalk.magenta(`[${name}]`) + ' ' + msg); }
+
+  private write(line: string): void {
+    if (this.toStderr) console.error(line);
+    else console.log(line);
+  }
 }
 
 export const logger = Logger.getInstance();
@@ -0,0 +1,136 @@
+/**
+ * Confucius SDK - LLM Retry Policy
+ *
+ * Exponential backoff with jitter for transient provider errors
+ * (rate limits, timeouts, 5xx, dropped connections), honoring the
+ * server's Retry-After header when it sends one.
+ */
+
+export interface RetryConfig {
+  /** Retries per provider after the first attempt. Default: 3 */
+  maxRetries?: number;
+
+  /** Delay before the first retry. Default: 1000ms */
+  initialDelayMs?: number;
+
+  /** Upper bound for any single delay, including Retry-After. Default: 30000ms */
+  maxDelayMs?: number;
+
+  /** Growth factor between retries. Default: 2 */
+  multiplier?: number;
+
+  /** Random spread applied to each delay, as a fraction (0-1). Default: 0.25 */
+  jitter?: number;
+}
+
+export const DEFAULT_RETRY_CONFIG: Required<RetryConfig> = {
+  maxRetries: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  multiplier: 2,
+  jitter: 0.25,
+};
+
+/** HTTP statuses worth retrying: timeout, conflict, rate limit, server errors */
+const RETRYABLE_STATUSES = new Set([408, 409, 429, 500, 502, 503, 504, 529]);
+
+/**
+ * Whether the error was caused by an aborted request.
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && (error.name === 'AbortError' || error.name === 'APIUserAbortError');
+}
+
+/**
+ * HTTP status of a provider error, if it has one.
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Whether a failed request is worth retrying. Errors without a status
+ * are network failures (connection reset, DNS, timeout) and are retried.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (isAbortError(error)) {
+    return false;
+  }
+  const status = getErrorStatus(error);
+  return status === undefined || RETRYABLE_STATUSES.has(status);
+}
+
+/**
+ * Server-requested delay from `retry-after-ms` or `Retry-After`
+ * (seconds or an HTTP date), in milliseconds.
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  const headers = (error as { headers?: unknown } | null)?.headers;
+  if (!(headers instanceof Headers)) {
+    return undefined;
+  }
+
+  const ms = Number(headers.get('retry-after-ms'));
+  if (Number.isFinite(ms) && ms > 0) {
+    return ms;
+  }
+
+  const value = headers.get('retry-after');
+  if (value === null) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Delay before retry number `retry` (1-based).
+ */
+export function computeBackoffMs(
+  retry: number,
+  config: Required<RetryConfig>,
+  retryAfterMs?: number
+): number {
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, config.maxDelayMs);
+  }
+  const base = config.initialDelayMs * Math.pow(config.multiplier, retry - 1);
+  const spread = base * config.jitter * (Math.random() * 2 - 1);
+  return Math.round(Math.min(config.maxDelayMs, Math.max(0, base + spread)));
+}
+
+/**
+ * Wait for `ms`, rejecting early if the signal is aborted.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted === true) {
+      reject(abortReason(signal));
+      return;
+    }
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(abortReason(signal));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function abortReason(signal: AbortSignal | undefined): Error {
+  const reason: unknown = signal?.reason;
+  if (reason instanceof Error) {
+    return reason;
+  }
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
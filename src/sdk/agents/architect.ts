@@ -101,6 +101,53 @@ Provide a concise summary preserving key information.`;
     }
   }
 
+  /**
+   * Propose a different approach when the agent is stuck repeating itself.
+   * 
+   * @param task - The original task
+   * @param messages - Recent execution trace
+   * @param problem - Description of the repeated behaviour
+   * @returns A short plan to inject into the conversation
+   */
+  async replan(task: string, messages: Message[], problem: string): Promise<string> {
+    this.logger.info('[Architect] Replanning after repeated actions', { problem });
+
+    const fallback = `The current approach is not working (${problem}). Step back, re-read the task and the errors above, and try a different approach. If the task cannot be completed, use finish to explain why.`;
+
+    if (!this.llm) {
+      this.logger.warn('[Architect] No LLM configured, using fallback plan');
+      return fallback;
+    }
+
+    const systemPrompt = `You are the Architect, a planning specialist.
+
+A coding agent is stuck: it keeps repeating the same actions without making progress.
+
+Your task is to read the task and the execution trace, work out why the current approach fails, and propose a different one.
+
+OUTPUT FORMAT:
+- One sentence naming the reason the agent is stuck
+- A numbered plan of 2-5 concrete next steps that avoid the repeated actions`;
+
+    const userMessage = `TASK:
+${task}
+
+PROBLEM:
+${problem}
+
+EXECUTION TRACE:
+${this.formatTraceForSummary(messages)}`;
+
+    try {
+      return await this.llm.chat(systemPrompt, userMessage);
+    } catch (error) {
+      this.logger.error('[Architect] Replanning failed, using fallback plan', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return fallback;
+    }
+  }
+
   /**
    * Compress the conversation history (legacy method for compatibility).
    * 
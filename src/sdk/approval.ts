@@ -0,0 +1,370 @@
+/**
+ * Confucius SDK - Action Approval
+ *
+ * A human-in-the-loop gate for risky actions. An ApprovalPolicy classifies
+ * each action as `auto`, `needs-approval` or `deny`; the ApprovalGate asks
+ * an Approver (e.g. an interactive CLI prompt) about the ones that need
+ * approval and records every decision. Without an Approver the gate runs
+ * non-interactively and denies anything the policy does not auto-approve.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { IExtension, ParsedAction, RunContext, Logger, JSONSchema } from './types.js';
+import { validateSchema } from './schema.js';
+
+/**
+ * ApprovalClass - How an action should be treated.
+ */
+export type ApprovalClass = 'auto' | 'needs-approval' | 'deny';
+
+/**
+ * ApprovalRule - Classifies matching actions.
+ *
+ * @example
+ * { "extension": "bash", "pattern": "^npm (test|run lint)$", "decision": "auto" }
+ */
+export interface ApprovalRule {
+  /** Extension name, or '*' for any extension */
+  extension: string;
+
+  /**
+   * Regular expression tested against the action's subject: the command
+   * for bash, the path for file_edit, otherwise the JSON parameters.
+   * Paths are normalized first: relative to the working directory, or
+   * absolute if they lead outside it. Omit to match every action of the
+   * extension.
+   */
+  pattern?: string;
+
+  /** Classification for matching actions */
+  decision: ApprovalClass;
+
+  /** Shown in logs and to the agent when the action is denied */
+  reason?: string;
+}
+
+/**
+ * ApprovalClassification - A policy's verdict for one action.
+ */
+export interface ApprovalClassification {
+  decision: ApprovalClass;
+  reason: string;
+}
+
+/**
+ * ApprovalPolicy - Decides which actions run unattended.
+ */
+export interface ApprovalPolicy {
+  classify(extension: IExtension, action: ParsedAction, context: RunContext): ApprovalClassification;
+}
+
+/**
+ * ApprovalRequest - An action waiting on a human decision.
+ */
+export interface ApprovalRequest {
+  sessionId: string;
+  iteration: number;
+  extension: string;
+  subject: string;
+  action: ParsedAction;
+  reason: string;
+
+  /** The run's cancellation signal; a prompt should give up when it fires */
+  signal?: AbortSignal;
+}
+
+/**
+ * ApprovalAnswer - A human decision. `always` approves this action and
+ * every identical one for the rest of the run.
+ */
+export type ApprovalAnswer = 'approve' | 'deny' | 'always';
+
+/**
+ * Approver - Asks a human about an action.
+ */
+export type Approver = (request: ApprovalRequest) => Promise<ApprovalAnswer>;
+
+/**
+ * ApprovalRecord - One recorded decision.
+ */
+export interface ApprovalRecord {
+  timestamp: Date;
+  sessionId: string;
+  iteration: number;
+  extension: string;
+  subject: string;
+  classification: ApprovalClass;
+  approved: boolean;
+
+  /** Who made the call: the policy, a human, or the non-interactive fallback */
+  decidedBy: 'policy' | 'user' | 'non-interactive';
+
+  reason: string;
+}
+
+/**
+ * ApprovalVerdict - Result of ApprovalGate.check().
+ */
+export interface ApprovalVerdict {
+  approved: boolean;
+  reason: string;
+}
+
+/** Schema of an approval rules file */
+const RULES_FILE_SCHEMA: JSONSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      extension: { type: 'string' },
+      pattern: { type: 'string' },
+      decision: { type: 'string', enum: ['auto', 'needs-approval', 'deny'] },
+      reason: { type: 'string' },
+    },
+    required: ['extension', 'decision'],
+    additionalProperties: false,
+  },
+};
+
+/**
+ * The part of an action rules are matched against.
+ */
+export function actionSubject(action: ParsedAction): string {
+  for (const key of ['command', 'path']) {
+    const value = action.parameters[key];
+    if (typeof value === 'string') {
+      return value;
+    }
+  }
+  return JSON.stringify(action.parameters);
+}
+
+/**
+ * RuleApprovalPolicy - Ordered rules, first match wins.
+ *
+ * Actions no rule matches are auto-approved when the extension reports
+ * them as read-only and the path (if any) stays inside the working
+ * directory; everything else needs approval. An `auto` rule never applies
+ * to a path outside the working directory.
+ */
+export class RuleApprovalPolicy implements ApprovalPolicy {
+  private rules: Array<ApprovalRule & { regex?: RegExp }>;
+  private workingDirectory: string;
+
+  constructor(rules: ApprovalRule[], workingDirectory: string = process.cwd()) {
+    this.workingDirectory = path.resolve(workingDirectory);
+    this.rules = rules.map(rule => {
+      try {
+        return { ...rule, regex: rule.pattern !== undefined ? new RegExp(rule.pattern) : undefined };
+      } catch (error) {
+        throw new Error(
+          `Invalid pattern in approval rule for ${rule.extension}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    });
+  }
+
+  classify(extension: IExtension, action: ParsedAction, _context: RunContext): ApprovalClassification {
+    const target = action.parameters.path;
+    const relative = typeof target === 'string' ? this.relativePath(target) : null;
+    const outside = relative !== null && (relative.startsWith('..') || path.isAbsolute(relative));
+    const subject = relative === null
+      ? actionSubject(action)
+      : outside ? path.resolve(this.workingDirectory, relative) : relative.split(path.sep).join('/');
+
+    for (const rule of this.rules) {
+      if (rule.extension !== '*' && rule.extension !== extension.name) {
+        continue;
+      }
+      if (outside && rule.decision === 'auto') {
+        continue;
+      }
+      if (rule.regex && !rule.regex.test(subject)) {
+        continue;
+      }
+      return {
+        decision: rule.decision,
+        reason: rule.reason ?? `Matched ${rule.decision} rule for ${rule.extension}${rule.pattern !== undefined ? ` /${rule.pattern}/` : ''}`,
+      };
+    }
+
+    if (outside) {
+      return { decision: 'needs-approval', reason: `Path is outside the working directory: ${subject}` };
+    }
+
+    if (extension.isReadOnly?.(action) === true) {
+      return { decision: 'auto', reason: 'Read-only action' };
+    }
+
+    return { decision: 'needs-approval', reason: `${extension.name} can modify the system` };
+  }
+
+  /**
+   * A path relative to the working directory, with `.` and `..` resolved.
+   * Starts with `..` (or is absolute, on another drive) when it leads outside.
+   */
+  private relativePath(target: string): string {
+    return path.relative(this.workingDirectory, path.resolve(this.workingDirectory, target));
+  }
+}
+
+/** Rules applied before any user rules: ending the run is always allowed */
+export const DEFAULT_APPROVAL_RULES: ApprovalRule[] = [
+  { extension: 'finish', decision: 'auto', reason: 'Ending the run has no side effects' },
+];
+
+/**
+ * Load approval rules from a JSON file: either an array of rules or an
+ * object with a `rules` array.
+ *
+ * @throws If the file cannot be read or contains invalid rules
+ */
+export async function loadApprovalRules(filepath: string): Promise<ApprovalRule[]> {
+  const raw = JSON.parse(await fs.readFile(filepath, 'utf-8')) as unknown;
+  const rules = typeof raw === 'object' && raw !== null && !Array.isArray(raw)
+    ? (raw as { rules?: unknown }).rules
+    : raw;
+
+  const problems = validateSchema(rules, RULES_FILE_SCHEMA, 'rules');
+  if (problems.length > 0) {
+    throw new Error(`Invalid approval rules in ${filepath}:\n${problems.map(p => `- ${p}`).join('\n')}`);
+  }
+  return rules as ApprovalRule[];
+}
+
+/**
+ * ApprovalGateOptions - Configuration for an ApprovalGate.
+ */
+export interface ApprovalGateOptions {
+  policy: ApprovalPolicy;
+
+  /** Asks a human; omit to run non-interactively (needs-approval is denied) */
+  approver?: Approver;
+
+  /** JSONL file every decision is appended to */
+  recordFile?: string;
+}
+
+/**
+ * ApprovalGate - Applies a policy, asks for approval and records decisions.
+ */
+export class ApprovalGate {
+  private policy: ApprovalPolicy;
+  private approver?: Approver;
+  private recordFile?: string;
+  private logger: Logger;
+  private records: ApprovalRecord[] = [];
+  private alwaysApproved = new Set<string>();
+  private prompts: Promise<unknown> = Promise.resolve();
+
+  constructor(logger: Logger, options: ApprovalGateOptions) {
+    this.logger = logger;
+    this.policy = options.policy;
+    this.approver = options.approver;
+    this.recordFile = options.recordFile;
+  }
+
+  /**
+   * Decide whether an action may run.
+   */
+  async check(extension: IExtension, action: ParsedAction, context: RunContext): Promise<ApprovalVerdict> {
+    const subject = actionSubject(action);
+    const { decision, reason } = this.policy.classify(extension, action, context);
+    const key = `${extension.name}\u0000${subject}`;
+
+    let approved: boolean;
+    let decidedBy: ApprovalRecord['decidedBy'] = 'policy';
+    let finalReason = reason;
+
+    if (decision !== 'needs-approval') {
+      approved = decision === 'auto';
+    } else if (this.alwaysApproved.has(key)) {
+      approved = true;
+      decidedBy = 'user';
+      finalReason = 'Approved earlier for the rest of the run';
+    } else if (!this.approver) {
+      approved = false;
+      decidedBy = 'non-interactive';
+      finalReason = `${reason} (no one to approve it in non-interactive mode)`;
+    } else {
+      const approver = this.approver;
+      // One prompt at a time, even when actions run concurrently
+      const answer = this.prompts.then(() => approver({
+        sessionId: context.sessionId,
+        iteration: context.iteration,
+        extension: extension.name,
+        subject,
+        action,
+        reason,
+        signal: context.signal,
+      }));
+      this.prompts = answer.catch(() => undefined);
+
+      let reply: ApprovalAnswer;
+      try {
+        reply = await answer;
+      } catch (error) {
+        this.logger.warn('Approval prompt failed, denying action', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        reply = 'deny';
+      }
+      if (reply === 'always') {
+        this.alwaysApproved.add(key);
+      }
+      approved = reply !== 'deny';
+      decidedBy = 'user';
+      finalReason = approved ? 'Approved by user' : 'Denied by user';
+    }
+
+    await this.record({
+      timestamp: new Date(),
+      sessionId: context.sessionId,
+      iteration: context.iteration,
+      extension: extension.name,
+      subject,
+      classification: decision,
+      approved,
+      decidedBy,
+      reason: finalReason,
+    });
+
+    return { approved, reason: finalReason };
+  }
+
+  /**
+   * All decisions made so far.
+   */
+  getRecords(): ApprovalRecord[] {
+    return [...this.records];
+  }
+
+  private async record(record: ApprovalRecord): Promise<void> {
+    this.records.push(record);
+    this.logger.info(`Approval: ${record.approved ? 'approved' : 'denied'} ${record.extension}`, {
+      subject: record.subject,
+      decidedBy: record.decidedBy,
+      reason: record.reason,
+    });
+
+    if (this.recordFile === undefined) {
+      return;
+    }
+    try {
+      await fs.mkdir(path.dirname(this.recordFile), { recursive: true });
+      await fs.appendFile(this.recordFile, `${JSON.stringify(record)}\n`, 'utf-8');
+    } catch (error) {
+      this.logger.error('Failed to record approval decision', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+/**
+ * Create a new approval gate.
+ */
+export function createApprovalGate(logger: Logger, options: ApprovalGateOptions): ApprovalGate {
+  return new ApprovalGate(logger, options);
+}
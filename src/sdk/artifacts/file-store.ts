@@ -0,0 +1,268 @@
+/**
+ * Confucius SDK - Filesystem Artifact Store
+ *
+ * Persists artifacts under .ralph/artifacts/<sessionId>/ so screenshots,
+ * diffs and logs outlive the process. Content is stored once per session
+ * under its SHA-256 hash; a manifest.json in each session directory maps
+ * artifact IDs to their content and records the MIME type and which
+ * extension produced the artifact in which iteration.
+ *
+ * @example
+ * .ralph/artifacts/session_m2x9k1_a8f3c2/
+ *   manifest.json
+ *   3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855.png
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { Artifact, ArtifactFilter, ArtifactStore, Logger } from '../types.js';
+
+/** Bumped when the manifest format changes incompatibly */
+const MANIFEST_VERSION = 1;
+
+/** Directory for artifacts saved without a session */
+const NO_SESSION = '_unsorted';
+
+/**
+ * ArtifactRecord - A manifest entry.
+ */
+export interface ArtifactRecord {
+  id: string;
+  name: string;
+  mimeType: string;
+  sessionId?: string;
+  extension?: string;
+  iteration?: number;
+
+  /** SHA-256 of the content; absent if the artifact had no content */
+  hash?: string;
+
+  /** Content size in bytes */
+  size: number;
+
+  /** Content file, relative to the session directory */
+  file?: string;
+
+  /** Original path the artifact pointed to, if any */
+  sourcePath?: string;
+
+  createdAt: string;
+}
+
+/**
+ * ArtifactManifest - Contents of a session's manifest.json.
+ */
+interface ArtifactManifest {
+  version: number;
+  artifacts: ArtifactRecord[];
+}
+
+/**
+ * MIME types whose content is returned as a string by get().
+ */
+function isTextMimeType(mimeType: string): boolean {
+  return mimeType.startsWith('text/') || /[/+](json|xml|javascript|yaml|x-sh|x-diff|x-patch)$/.test(mimeType);
+}
+
+/**
+ * FileArtifactStore - Content-addressed artifact storage on disk.
+ */
+export class FileArtifactStore implements ArtifactStore {
+  private logger: Logger;
+  private rootDir: string;
+  private writes: Promise<void> = Promise.resolve();
+
+  /**
+   * @param logger - Logger for observability
+   * @param workingDirectory - Project directory; artifacts go to .ralph/artifacts/ inside it
+   */
+  constructor(logger: Logger, workingDirectory: string) {
+    this.logger = logger;
+    this.rootDir = path.join(workingDirectory, '.ralph', 'artifacts');
+  }
+
+  /**
+   * Store an artifact. Content comes from `content`, or is copied from
+   * `path` when there is no inline content. Identical content within a
+   * session is stored once. Saving an ID again replaces its entry.
+   */
+  async save(artifact: Artifact): Promise<string> {
+    const content = artifact.content ?? (artifact.path !== undefined ? await this.readSource(artifact.path) : undefined);
+    const sessionDir = this.getSessionDir(artifact.sessionId);
+
+    let hash: string | undefined;
+    let file: string | undefined;
+    if (content !== undefined) {
+      hash = createHash('sha256').update(content).digest('hex');
+      file = `${hash}${path.extname(artifact.name)}`;
+    }
+
+    const record: ArtifactRecord = {
+      id: artifact.id,
+      name: artifact.name,
+      mimeType: artifact.mimeType,
+      sessionId: artifact.sessionId,
+      extension: artifact.extension,
+      iteration: artifact.iteration,
+      hash,
+      size: content !== undefined ? Buffer.byteLength(content) : 0,
+      file,
+      sourcePath: artifact.path,
+      createdAt: new Date().toISOString(),
+    };
+
+    // Serialize manifest updates so concurrent saves don't drop entries.
+    // The chain itself never rejects, so one failed write doesn't fail
+    // every later save.
+    const write = this.writes.then(async () => {
+      await fs.mkdir(sessionDir, { recursive: true });
+      if (content !== undefined && file !== undefined && !await exists(path.join(sessionDir, file))) {
+        await fs.writeFile(path.join(sessionDir, file), content);
+      }
+
+      const manifest = await this.readManifest(sessionDir);
+      manifest.artifacts = [...manifest.artifacts.filter(r => r.id !== record.id), record];
+      await this.writeManifest(sessionDir, manifest);
+    });
+    this.writes = write.catch(() => undefined);
+    await write;
+
+    this.logger.debug('[Artifacts] Saved', {
+      id: artifact.id,
+      sessionId: artifact.sessionId,
+      size: record.size,
+      hash,
+    });
+    return artifact.id;
+  }
+
+  /**
+   * Load an artifact with its content: a string for text types, a Buffer
+   * otherwise.
+   */
+  async get(id: string): Promise<Artifact | null> {
+    for (const sessionDir of await this.listSessionDirs()) {
+      const record = (await this.readManifest(sessionDir)).artifacts.find(r => r.id === id);
+      if (record) {
+        const artifact = this.toArtifact(sessionDir, record);
+        if (record.file !== undefined) {
+          const data = await fs.readFile(path.join(sessionDir, record.file));
+          artifact.content = isTextMimeType(record.mimeType) ? data.toString('utf-8') : data;
+        }
+        return artifact;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * List artifacts, oldest first, without loading their content. `path`
+   * points at the stored content file.
+   */
+  async list(filter: ArtifactFilter = {}): Promise<Artifact[]> {
+    return (await this.listRecords(filter)).map(({ sessionDir, record }) => this.toArtifact(sessionDir, record));
+  }
+
+  /**
+   * Manifest entries, oldest first.
+   */
+  async listRecords(filter: ArtifactFilter = {}): Promise<Array<{ sessionDir: string; record: ArtifactRecord }>> {
+    const sessionDirs = filter.sessionId !== undefined
+      ? [this.getSessionDir(filter.sessionId)]
+      : await this.listSessionDirs();
+
+    const entries: Array<{ sessionDir: string; record: ArtifactRecord }> = [];
+    for (const sessionDir of sessionDirs) {
+      for (const record of (await this.readManifest(sessionDir)).artifacts) {
+        entries.push({ sessionDir, record });
+      }
+    }
+    return entries.sort((a, b) => a.record.createdAt.localeCompare(b.record.createdAt));
+  }
+
+  private toArtifact(sessionDir: string, record: ArtifactRecord): Artifact {
+    return {
+      id: record.id,
+      name: record.name,
+      mimeType: record.mimeType,
+      path: record.file !== undefined ? path.join(sessionDir, record.file) : record.sourcePath,
+      sessionId: record.sessionId,
+      extension: record.extension,
+      iteration: record.iteration,
+    };
+  }
+
+  private getSessionDir(sessionId: string | undefined): string {
+    return path.join(this.rootDir, (sessionId ?? NO_SESSION).replace(/[^\w.-]/g, '_'));
+  }
+
+  private async listSessionDirs(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.rootDir, { withFileTypes: true });
+      return entries.filter(e => e.isDirectory()).map(e => path.join(this.rootDir, e.name));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private async readManifest(sessionDir: string): Promise<ArtifactManifest> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(path.join(sessionDir, 'manifest.json'), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { version: MANIFEST_VERSION, artifacts: [] };
+      }
+      throw error;
+    }
+
+    const manifest = JSON.parse(raw) as ArtifactManifest;
+    if (manifest.version !== MANIFEST_VERSION) {
+      throw new Error(`Unsupported artifact manifest version ${manifest.version} in ${sessionDir} (expected ${MANIFEST_VERSION})`);
+    }
+    return manifest;
+  }
+
+  private async writeManifest(sessionDir: string, manifest: ArtifactManifest): Promise<void> {
+    const filepath = path.join(sessionDir, 'manifest.json');
+    const tmpPath = `${filepath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(manifest, null, 2), 'utf-8');
+    await fs.rename(tmpPath, filepath);
+  }
+
+  /**
+   * Read the file an artifact points to; a missing file is recorded
+   * without content rather than failing the save.
+   */
+  private async readSource(filepath: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.readFile(filepath);
+    } catch (error) {
+      this.logger.warn('[Artifacts] Could not read artifact file, storing reference only', {
+        path: filepath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+}
+
+async function exists(filepath: string): Promise<boolean> {
+  try {
+    await fs.access(filepath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Create a new filesystem artifact store.
+ */
+export function createFileArtifactStore(logger: Logger, workingDirectory: string): FileArtifactStore {
+  return new FileArtifactStore(logger, workingDirectory);
+}
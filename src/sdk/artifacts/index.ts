@@ -0,0 +1,12 @@
+/**
+ * Confucius SDK - Artifact Stores
+ * 
+ * ArtifactStore implementations for files and outputs produced during runs.
+ */
+
+export { MemoryArtifactStore, createMemoryArtifactStore } from './memory-store.js';
+export { FileArtifactStore, createFileArtifactStore } from './file-store.js';
+export type { ArtifactRecord } from './file-store.js';
+
+// Re-export types
+export type { Artifact, ArtifactFilter, ArtifactStore } from '../types.js';
@@ -0,0 +1,39 @@
+/**
+ * Confucius SDK - In-Memory Artifact Store
+ * 
+ * Keeps artifacts in a Map for the lifetime of the process. Suitable for
+ * one-off CLI runs and tests.
+ */
+
+import type { Artifact, ArtifactFilter, ArtifactStore } from '../types.js';
+
+/**
+ * MemoryArtifactStore - Simple in-memory artifact store.
+ */
+export class MemoryArtifactStore implements ArtifactStore {
+  private artifacts: Map<string, Artifact> = new Map();
+
+  save(artifact: Artifact): Promise<string> {
+    this.artifacts.set(artifact.id, artifact);
+    return Promise.resolve(artifact.id);
+  }
+
+  get(id: string): Promise<Artifact | null> {
+    return Promise.resolve(this.artifacts.get(id) ?? null);
+  }
+
+  list(filter: ArtifactFilter = {}): Promise<Artifact[]> {
+    return Promise.resolve(
+      Array.from(this.artifacts.values()).filter(
+        a => filter.sessionId === undefined || a.sessionId === filter.sessionId
+      )
+    );
+  }
+}
+
+/**
+ * Create a new in-memory artifact store.
+ */
+export function createMemoryArtifactStore(): MemoryArtifactStore {
+  return new MemoryArtifactStore();
+}
@@ -0,0 +1,162 @@
+/**
+ * Confucius SDK - Chat Sessions
+ *
+ * A multi-turn session: one session scope (system prompt and learned
+ * rules) and one WorkingMemoryManager kept alive across turns, with each
+ * follow-up task becoming a new entry scope. Earlier turns stay in memory
+ * as history, so the agent can build on what it already did. Session notes
+ * are written once, when the chat ends.
+ *
+ * @example
+ * const chat = await orchestrator.startChat();
+ * await chat.send('Add a /health endpoint');
+ * await chat.send('Now add a test for it');
+ * chat.undo(); // forget the last turn
+ * await chat.end();
+ */
+
+import type { IExtension, Note, OrchestratorState, CostBreakdown, ExecutionResult } from './types.js';
+import type { RunOptions } from './orchestrator.js';
+import type { ExtensionRegistry } from './registry.js';
+import type { WorkingMemoryManager } from './memory/working-memory.js';
+import type { CostTracker } from './cost.js';
+
+/**
+ * ChatSessionBackend - What a ChatSession needs from the orchestrator.
+ */
+export interface ChatSessionBackend {
+  sessionId: string;
+  memory: WorkingMemoryManager;
+  costTracker: CostTracker;
+  registry: ExtensionRegistry;
+
+  /** Run the orchestrator loop on the memory's current entry */
+  runTurn: (task: string, options: RunOptions) => Promise<OrchestratorState>;
+
+  /** Summarize the older part of the runnable scope now */
+  compress: () => Promise<void>;
+
+  /** Write the session notes and learn from the session, given the last result */
+  end: (result: ExecutionResult | undefined, signal?: AbortSignal) => Promise<void>;
+}
+
+/**
+ * ChatTurn - One completed task in a chat session.
+ */
+export interface ChatTurn {
+  task: string;
+  state: OrchestratorState;
+}
+
+/**
+ * CompressionReport - Memory size around a manual compression.
+ */
+export interface CompressionReport {
+  tokensBefore: number;
+  tokensAfter: number;
+}
+
+/**
+ * ChatSession - Runs follow-up tasks against the same memory.
+ */
+export class ChatSession {
+  private turns: Array<ChatTurn & { snapshot: ReturnType<WorkingMemoryManager['export']> }> = [];
+  private ended = false;
+
+  constructor(private backend: ChatSessionBackend) {}
+
+  /** ID shared by every turn; checkpoints go to .ralph/sessions/<sessionId>/ */
+  get sessionId(): string {
+    return this.backend.sessionId;
+  }
+
+  /**
+   * Run a task. The first task sets the entry scope; later ones start a
+   * follow-up entry with the earlier turns kept as history.
+   *
+   * @throws If the session has ended
+   */
+  async send(task: string, options: RunOptions = {}): Promise<OrchestratorState> {
+    if (this.ended) {
+      throw new Error(`Chat session ${this.sessionId} has ended`);
+    }
+    const snapshot = this.backend.memory.export();
+    if (this.turns.length === 0) {
+      this.backend.memory.setEntry(task, options.attachments);
+    } else {
+      this.backend.memory.startFollowUp(task, options.attachments);
+    }
+
+    const state = await this.backend.runTurn(task, options);
+    this.turns.push({ task, state, snapshot });
+    return state;
+  }
+
+  /**
+   * Forget the last turn: memory goes back to how it was before that task.
+   * Changes the agent made to files are not reverted, and its usage still
+   * counts towards the cost.
+   *
+   * @returns The turn that was removed, or null if there was none
+   */
+  undo(): ChatTurn | null {
+    const last = this.turns.pop();
+    if (last === undefined) {
+      return null;
+    }
+    this.backend.memory.import(last.snapshot);
+    return { task: last.task, state: last.state };
+  }
+
+  /**
+   * End the session: the NoteTaker summarizes every turn and the Meta-Agent
+   * learns from it. Does nothing if no task was run or it already ended.
+   *
+   * @param options - An AbortSignal cancels writing the notes
+   */
+  async end(options: Pick<RunOptions, 'signal'> = {}): Promise<void> {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+
+    if (this.turns.length > 0) {
+      await this.backend.end(this.turns[this.turns.length - 1].state.result, options.signal);
+    }
+  }
+
+  /**
+   * Summarize older execution history now, instead of waiting for the
+   * compression threshold.
+   */
+  async compress(): Promise<CompressionReport> {
+    const tokensBefore = this.backend.memory.getTotalTokenCount();
+    await this.backend.compress();
+    return { tokensBefore, tokensAfter: this.backend.memory.getTotalTokenCount() };
+  }
+
+  /** Completed turns, oldest first */
+  getTurns(): ChatTurn[] {
+    return this.turns.map(({ task, state }) => ({ task, state }));
+  }
+
+  /** The memory shared by every turn */
+  getMemory(): WorkingMemoryManager {
+    return this.backend.memory;
+  }
+
+  /** Notes written to memory by extensions */
+  getNotes(): Note[] {
+    return Array.from(this.backend.memory.getMemory().notes.values());
+  }
+
+  /** Extensions available to the agent */
+  getTools(): IExtension[] {
+    return this.backend.registry.listAll();
+  }
+
+  /** Usage and estimated cost across all turns */
+  getCost(): CostBreakdown {
+    return this.backend.costTracker.getBreakdown();
+  }
+}
@@ -0,0 +1,380 @@
+/**
+ * Confucius SDK - Compression Strategies
+ *
+ * Ways to shrink the runnable scope when memory passes its compression
+ * threshold. Session and entry scopes are never touched.
+ *
+ * - `summary`: the Architect summarizes everything but the latest
+ *   messages (the default)
+ * - `elide-tool-output`: large tool results are cut down to their first
+ *   lines; no LLM call
+ * - `importance`: whole steps are dropped, least important first, keeping
+ *   failures and file edits; no LLM call
+ * - `hierarchical`: new history is summarized into a rolling list of
+ *   summaries, and the oldest summaries are merged when there are too many
+ *
+ * Actions and their results are kept or dropped together, so native tool
+ * calls always keep their answers.
+ *
+ * @example
+ * const config: RunConfig = {
+ *   ...,
+ *   compressionStrategy: new ToolOutputElisionStrategy({ maxResultTokens: 500 }),
+ * };
+ */
+
+import type { Message } from './types.js';
+import type { Tokenizer } from './tokenizer.js';
+
+/** Prefix of summary messages written by the summarizing strategies */
+export const SUMMARY_PREFIX = '[PREVIOUS CONTEXT SUMMARY]';
+
+/**
+ * Starts the line the orchestrator appends to a tool output it offloaded
+ * to an artifact. Elision keeps this line so the artifact id isn't lost.
+ */
+export const OFFLOAD_NOTE_PREFIX = '[Full output saved as artifact';
+
+/**
+ * CompressionContext - What a strategy can use besides the messages.
+ */
+export interface CompressionContext {
+  /** Counts tokens the same way working memory does */
+  tokenizer: Tokenizer;
+
+  /** Summarize messages with the Architect */
+  summarize: (messages: Message[]) => Promise<string>;
+}
+
+/**
+ * CompressionResult - The compressed runnable scope and what it saved.
+ */
+export interface CompressionResult {
+  messages: Message[];
+
+  /** Messages summarized, elided or dropped */
+  compressedMessages: number;
+
+  tokensBefore: number;
+  tokensAfter: number;
+  tokensSaved: number;
+}
+
+/**
+ * CompressionStrategy - Shrinks the runnable scope.
+ */
+export interface CompressionStrategy {
+  /** Shown in logs and compression events */
+  readonly name: string;
+
+  /**
+   * Compress runnable messages (oldest first).
+   *
+   * @returns The replacement messages, or null if there is nothing to compress
+   */
+  compress: (messages: Message[], context: CompressionContext) => Promise<CompressionResult | null>;
+}
+
+/** Names of the built-in strategies */
+export type CompressionStrategyName = 'summary' | 'elide-tool-output' | 'importance' | 'hierarchical';
+
+/** Default number of most recent messages every strategy leaves alone */
+const DEFAULT_KEEP_RECENT = 4;
+
+function countTokens(messages: Message[], tokenizer: Tokenizer): number {
+  return messages.reduce((sum, m) => sum + tokenizer.count(m.content), 0);
+}
+
+function toResult(
+  before: Message[],
+  after: Message[],
+  compressedMessages: number,
+  tokenizer: Tokenizer
+): CompressionResult {
+  const tokensBefore = countTokens(before, tokenizer);
+  const tokensAfter = countTokens(after, tokenizer);
+  return { messages: after, compressedMessages, tokensBefore, tokensAfter, tokensSaved: tokensBefore - tokensAfter };
+}
+
+function summaryMessage(summary: string): Message {
+  return {
+    role: 'system',
+    content: `${SUMMARY_PREFIX}:\n${summary}`,
+    timestamp: new Date(),
+    scope: 'runnable',
+  };
+}
+
+function isSummary(message: Message): boolean {
+  return message.role === 'system' && message.content.startsWith(SUMMARY_PREFIX);
+}
+
+/**
+ * Split messages into steps: an assistant message with the tool results
+ * that follow it. Other messages (tasks, summaries, corrections) are steps
+ * of their own.
+ */
+function groupSteps(messages: Message[]): Message[][] {
+  const steps: Message[][] = [];
+  for (const message of messages) {
+    const current = steps[steps.length - 1];
+    if (message.role === 'tool' && current !== undefined && current[0].role !== 'user' && current[0].role !== 'system') {
+      current.push(message);
+    } else {
+      steps.push([message]);
+    }
+  }
+  return steps;
+}
+
+/**
+ * Index of the first message of the last `keepRecent` messages, moved back
+ * to a step boundary so an action isn't separated from its results.
+ */
+function recentStart(steps: Message[][], keepRecent: number): number {
+  let count = 0;
+  let index = steps.length;
+  while (index > 0 && count < keepRecent) {
+    index--;
+    count += steps[index].length;
+  }
+  return index;
+}
+
+/**
+ * LLMSummaryStrategy - The Architect summarizes all but the latest messages.
+ */
+export class LLMSummaryStrategy implements CompressionStrategy {
+  readonly name = 'summary';
+  private keepRecent: number;
+
+  constructor(options: { keepRecent?: number } = {}) {
+    this.keepRecent = options.keepRecent ?? DEFAULT_KEEP_RECENT;
+  }
+
+  async compress(messages: Message[], context: CompressionContext): Promise<CompressionResult | null> {
+    const steps = groupSteps(messages);
+    const split = recentStart(steps, this.keepRecent);
+    const toSummarize = steps.slice(0, split).flat();
+    if (toSummarize.length === 0) {
+      return null;
+    }
+
+    const summary = await context.summarize(toSummarize);
+    const compressed = [summaryMessage(summary), ...steps.slice(split).flat()];
+    return toResult(messages, compressed, toSummarize.length, context.tokenizer);
+  }
+}
+
+/**
+ * ToolOutputElisionStrategy - Cuts large tool results down to their first
+ * lines (exit code, file name, first error) with a note of what was left
+ * out. Cheap and deterministic; the agent can rerun a command if it needs
+ * the full output again.
+ */
+export class ToolOutputElisionStrategy implements CompressionStrategy {
+  readonly name = 'elide-tool-output';
+  private keepRecent: number;
+  private maxResultTokens: number;
+  private headerLines: number;
+
+  /**
+   * @param options.maxResultTokens - Results larger than this are elided. Default: 200
+   * @param options.headerLines - Lines kept from each elided result. Default: 3
+   */
+  constructor(options: { keepRecent?: number; maxResultTokens?: number; headerLines?: number } = {}) {
+    this.keepRecent = options.keepRecent ?? DEFAULT_KEEP_RECENT;
+    this.maxResultTokens = options.maxResultTokens ?? 200;
+    this.headerLines = options.headerLines ?? 3;
+  }
+
+  compress(messages: Message[], context: CompressionContext): Promise<CompressionResult | null> {
+    const steps = groupSteps(messages);
+    const recentFrom = steps.slice(0, recentStart(steps, this.keepRecent)).flat().length;
+
+    let elided = 0;
+    const compressed = messages.map((message, index) => {
+      if (index >= recentFrom || message.role !== 'tool') {
+        return message;
+      }
+      const tokens = context.tokenizer.count(message.content);
+      if (tokens <= this.maxResultTokens) {
+        return message;
+      }
+      elided++;
+      return { ...message, content: this.elide(message.content, tokens) };
+    });
+
+    return Promise.resolve(elided > 0 ? toResult(messages, compressed, elided, context.tokenizer) : null);
+  }
+
+  private elide(content: string, tokens: number): string {
+    const body = content.replace(/^<result>/, '').replace(/<\/result>$/, '');
+    const lines = body.split('\n');
+    const header = lines
+      .filter(line => line.trim().length > 0)
+      .slice(0, this.headerLines)
+      .map(line => line.length > 200 ? `${line.substring(0, 200)}...` : line);
+    const notes = lines.filter(line => line.startsWith(OFFLOAD_NOTE_PREFIX));
+    return `<result>${[...header, `... [output elided: ${lines.length} lines, ~${tokens} tokens]`, ...notes].join('\n')}</result>`;
+  }
+}
+
+/**
+ * ImportanceRetentionStrategy - Drops whole steps, least important and
+ * oldest first, until the runnable scope is down to a target size. Failed
+ * actions, file edits, tasks, summaries and other non-action messages are
+ * always kept. Each run of dropped steps is replaced by a one-line note.
+ */
+export class ImportanceRetentionStrategy implements CompressionStrategy {
+  readonly name = 'importance';
+  private keepRecent: number;
+  private targetFraction: number;
+
+  /**
+   * @param options.targetFraction - Size to shrink to, as a fraction of the current size. Default: 0.5
+   */
+  constructor(options: { keepRecent?: number; targetFraction?: number } = {}) {
+    this.keepRecent = options.keepRecent ?? DEFAULT_KEEP_RECENT;
+    this.targetFraction = options.targetFraction ?? 0.5;
+  }
+
+  /**
+   * Score a step: read-only actions 0, other actions 1, and Infinity
+   * (never dropped) for failures, file edits and non-action messages.
+   */
+  static score(step: Message[]): number {
+    if (step[0].role === 'user' || step[0].role === 'system') {
+      return Infinity;
+    }
+    const results = step.filter(m => m.role === 'tool');
+    if (results.some(m => m.success === false || (m.toolName === 'file_edit' && m.readOnly !== true))) {
+      return Infinity;
+    }
+    return results.some(m => m.readOnly !== true) ? 1 : 0;
+  }
+
+  compress(messages: Message[], context: CompressionContext): Promise<CompressionResult | null> {
+    const steps = groupSteps(messages);
+    const split = recentStart(steps, this.keepRecent);
+    const tokens = steps.map(step => countTokens(step, context.tokenizer));
+    const target = tokens.reduce((sum, t) => sum + t, 0) * this.targetFraction;
+
+    // Least important first; among equals, oldest first
+    const candidates = steps
+      .slice(0, split)
+      .map((step, index) => ({ index, score: ImportanceRetentionStrategy.score(step) }))
+      .filter(c => c.score !== Infinity)
+      .sort((a, b) => a.score - b.score || a.index - b.index);
+
+    const dropped = new Set<number>();
+    let remaining = tokens.reduce((sum, t) => sum + t, 0);
+    for (const { index } of candidates) {
+      if (remaining <= target) {
+        break;
+      }
+      dropped.add(index);
+      remaining -= tokens[index];
+    }
+    if (dropped.size === 0) {
+      return Promise.resolve(null);
+    }
+
+    const compressed: Message[] = [];
+    let omitted: Message[][] = [];
+    const flushOmitted = (): void => {
+      if (omitted.length > 0) {
+        compressed.push(this.omissionNote(omitted));
+        omitted = [];
+      }
+    };
+    steps.forEach((step, index) => {
+      if (dropped.has(index)) {
+        omitted.push(step);
+      } else {
+        flushOmitted();
+        compressed.push(...step);
+      }
+    });
+    flushOmitted();
+
+    const droppedMessages = Array.from(dropped).reduce((sum, i) => sum + steps[i].length, 0);
+    return Promise.resolve(toResult(messages, compressed, droppedMessages, context.tokenizer));
+  }
+
+  private omissionNote(steps: Message[][]): Message {
+    const tools = new Map<string, number>();
+    for (const result of steps.flat().filter(m => m.role === 'tool')) {
+      const name = result.toolName ?? 'unknown';
+      tools.set(name, (tools.get(name) ?? 0) + 1);
+    }
+    const summary = Array.from(tools.entries()).map(([name, n]) => n > 1 ? `${name} x${n}` : name).join(', ');
+    return {
+      role: 'system',
+      content: `[${steps.length} earlier step${steps.length === 1 ? '' : 's'} omitted${summary.length > 0 ? `: ${summary}` : ''}]`,
+      timestamp: new Date(),
+      scope: 'runnable',
+    };
+  }
+}
+
+/**
+ * HierarchicalSummaryStrategy - Keeps a rolling list of summaries. Each
+ * compression summarizes only the history since the last summary; when
+ * there are more than `maxSummaries`, the oldest are merged into one, so
+ * recent history stays detailed and older history gets coarser.
+ */
+export class HierarchicalSummaryStrategy implements CompressionStrategy {
+  readonly name = 'hierarchical';
+  private keepRecent: number;
+  private maxSummaries: number;
+
+  /**
+   * @param options.maxSummaries - Summaries kept before the oldest are merged. Default: 3
+   */
+  constructor(options: { keepRecent?: number; maxSummaries?: number } = {}) {
+    this.keepRecent = options.keepRecent ?? DEFAULT_KEEP_RECENT;
+    this.maxSummaries = Math.max(options.maxSummaries ?? 3, 2);
+  }
+
+  async compress(messages: Message[], context: CompressionContext): Promise<CompressionResult | null> {
+    let leading = 0;
+    while (leading < messages.length && isSummary(messages[leading])) {
+      leading++;
+    }
+    const summaries = messages.slice(0, leading);
+    const steps = groupSteps(messages.slice(leading));
+    const split = recentStart(steps, this.keepRecent);
+    const toSummarize = steps.slice(0, split).flat();
+    if (toSummarize.length === 0) {
+      return null;
+    }
+
+    let levels = [...summaries, summaryMessage(await context.summarize(toSummarize))];
+    if (levels.length > this.maxSummaries) {
+      const oldest = levels.slice(0, levels.length - this.maxSummaries + 1);
+      levels = [summaryMessage(await context.summarize(oldest)), ...levels.slice(oldest.length)];
+    }
+
+    const compressed = [...levels, ...steps.slice(split).flat()];
+    return toResult(messages, compressed, toSummarize.length, context.tokenizer);
+  }
+}
+
+/**
+ * Create a built-in strategy by name, with default options.
+ */
+export function createCompressionStrategy(name: CompressionStrategyName): CompressionStrategy {
+  switch (name) {
+    case 'summary':
+      return new LLMSummaryStrategy();
+    case 'elide-tool-output':
+      return new ToolOutputElisionStrategy();
+    case 'importance':
+      return new ImportanceRetentionStrategy();
+    case 'hierarchical':
+      return new HierarchicalSummaryStrategy();
+    default:
+      throw new Error(`Unknown compression strategy "${String(name)}"`);
+  }
+}
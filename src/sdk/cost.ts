@@ -0,0 +1,178 @@
+/**
+ * Confucius SDK - Cost Tracking
+ *
+ * Per-model pricing and token/cost accounting for orchestrator runs.
+ * Usage is recorded per caller (main loop and each sub-agent) so the
+ * final state can show where the budget went.
+ */
+
+import type {
+  LLMResponse,
+  ModelPricing,
+  RunBudget,
+  CostBreakdown,
+  UsageCost,
+  CostCategory,
+} from './types.js';
+import { lookupModel } from './models.js';
+
+/**
+ * Built-in price table (USD per million tokens).
+ *
+ * Keys are matched against the model name with any `provider/` prefix
+ * removed, by exact match first and then by longest prefix, so dated
+ * snapshots such as `claude-3-5-sonnet-20241022` resolve to their family.
+ */
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  'claude-3.5-sonnet': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-5-sonnet': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3.7-sonnet': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-7-sonnet': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-sonnet-4': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3.5-haiku': { inputPerMillion: 0.8, outputPerMillion: 4 },
+  'claude-3-5-haiku': { inputPerMillion: 0.8, outputPerMillion: 4 },
+  'claude-3-haiku': { inputPerMillion: 0.25, outputPerMillion: 1.25 },
+  'claude-3-opus': { inputPerMillion: 15, outputPerMillion: 75 },
+  'claude-opus-4': { inputPerMillion: 15, outputPerMillion: 75 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4.1-mini': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  'gpt-4.1': { inputPerMillion: 2, outputPerMillion: 8 },
+  'gpt-4-turbo': { inputPerMillion: 10, outputPerMillion: 30 },
+  'o3-mini': { inputPerMillion: 1.1, outputPerMillion: 4.4 },
+};
+
+/**
+ * Look up pricing for a model name.
+ *
+ * @param model - Model name, optionally prefixed with `provider/`
+ * @param table - Price table to search
+ * @returns Pricing, or null if the model is unknown
+ */
+export function resolvePricing(
+  model: string,
+  table: Record<string, ModelPricing> = DEFAULT_MODEL_PRICING
+): ModelPricing | null {
+  return lookupModel(model, table);
+}
+
+/**
+ * Estimate the USD cost of a single call.
+ */
+export function estimateCost(
+  usage: LLMResponse['usage'],
+  pricing: ModelPricing | null
+): number {
+  if (!pricing) {
+    return 0;
+  }
+  return (
+    (usage.promptTokens * pricing.inputPerMillion +
+      usage.completionTokens * pricing.outputPerMillion) / 1_000_000
+  );
+}
+
+/**
+ * CostTracker - Accumulates usage and cost for one orchestrator run.
+ */
+export class CostTracker {
+  private pricing: ModelPricing | null;
+  private categories: Record<CostCategory, UsageCost> = {
+    main: emptyUsageCost(),
+    architect: emptyUsageCost(),
+    noteTaker: emptyUsageCost(),
+    metaAgent: emptyUsageCost(),
+  };
+
+  constructor(model: string, pricingTable?: Record<string, ModelPricing>) {
+    this.pricing = resolvePricing(model, { ...DEFAULT_MODEL_PRICING, ...pricingTable });
+  }
+
+  /**
+   * Whether the model has a known price. Without one, costs are reported as 0.
+   */
+  hasPricing(): boolean {
+    return this.pricing !== null;
+  }
+
+  /**
+   * Record the usage of one LLM call.
+   */
+  record(category: CostCategory, usage: LLMResponse['usage']): void {
+    const entry = this.categories[category];
+    entry.calls++;
+    entry.promptTokens += usage.promptTokens;
+    entry.completionTokens += usage.completionTokens;
+    entry.totalTokens += usage.totalTokens;
+    entry.costUsd += estimateCost(usage, this.pricing);
+  }
+
+  /**
+   * Seed the tracker with usage from an earlier part of the same run
+   * (e.g. when resuming from a checkpoint).
+   */
+  restore(breakdown: CostBreakdown): void {
+    this.categories = {
+      main: { ...breakdown.main },
+      architect: { ...breakdown.architect },
+      noteTaker: { ...breakdown.noteTaker },
+      metaAgent: { ...breakdown.metaAgent },
+    };
+  }
+
+  /**
+   * Check the accumulated totals against a budget.
+   *
+   * @returns A description of the exceeded limit, or null if within budget
+   */
+  checkBudget(budget: RunBudget | undefined): string | null {
+    if (!budget) {
+      return null;
+    }
+
+    const total = this.getBreakdown().total;
+    if (budget.maxTokens !== undefined && total.totalTokens > budget.maxTokens) {
+      return `Token budget exceeded: ${total.totalTokens} > ${budget.maxTokens}`;
+    }
+    if (budget.maxCostUsd !== undefined && total.costUsd > budget.maxCostUsd) {
+      return `Cost budget exceeded: $${total.costUsd.toFixed(4)} > $${budget.maxCostUsd.toFixed(4)}`;
+    }
+    return null;
+  }
+
+  /**
+   * Get a snapshot of usage and cost per category plus the total.
+   */
+  getBreakdown(): CostBreakdown {
+    const total = emptyUsageCost();
+    for (const entry of Object.values(this.categories)) {
+      total.calls += entry.calls;
+      total.promptTokens += entry.promptTokens;
+      total.completionTokens += entry.completionTokens;
+      total.totalTokens += entry.totalTokens;
+      total.costUsd += entry.costUsd;
+    }
+
+    return {
+      main: { ...this.categories.main },
+      architect: { ...this.categories.architect },
+      noteTaker: { ...this.categories.noteTaker },
+      metaAgent: { ...this.categories.metaAgent },
+      total,
+    };
+  }
+}
+
+function emptyUsageCost(): UsageCost {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+}
+
+/**
+ * Create a new cost tracker for a model.
+ */
+export function createCostTracker(
+  model: string,
+  pricingTable?: Record<string, ModelPricing>
+): CostTracker {
+  return new CostTracker(model, pricingTable);
+}
@@ -0,0 +1,195 @@
+/**
+ * Confucius SDK - Orchestrator Events
+ *
+ * A typed event emitter for observing runs, plus action hooks that can
+ * veto or rewrite an action before it executes. Embedding apps, UIs and
+ * tests subscribe through ConfuciusOrchestrator.on() and .addActionHook().
+ */
+
+import type {
+  IExtension,
+  ParsedAction,
+  ExecutionResult,
+  LLMResponse,
+  Logger,
+  OrchestratorState,
+  RunContext,
+} from './types.js';
+
+/**
+ * OrchestratorEvents - Event names mapped to their payloads.
+ */
+export interface OrchestratorEvents {
+  /** A new loop iteration is starting */
+  'iteration:start': {
+    sessionId: string;
+    iteration: number;
+  };
+
+  /** The main LLM returned a (possibly continued) response */
+  'llm:response': {
+    sessionId: string;
+    iteration: number;
+    response: LLMResponse;
+  };
+
+  /** An action was parsed and is about to go through hooks and execute */
+  'action:parsed': {
+    sessionId: string;
+    iteration: number;
+    extension: string;
+    action: ParsedAction;
+  };
+
+  /** An action finished executing (or was vetoed by a hook) */
+  'action:result': {
+    sessionId: string;
+    iteration: number;
+    extension: string;
+    action: ParsedAction;
+    result: ExecutionResult;
+  };
+
+  /** The runnable scope was compressed */
+  'compression': {
+    sessionId: string;
+    iteration: number;
+    strategy: string;
+    tokensBefore: number;
+    tokensAfter: number;
+    tokensSaved: number;
+
+    /** Messages summarized, elided or dropped */
+    summarizedMessages: number;
+  };
+
+  /** The loop has ended; session notes are written afterwards */
+  'terminate': {
+    sessionId: string;
+    iteration: number;
+    reason: OrchestratorState['terminationReason'];
+    result?: ExecutionResult;
+  };
+
+  /** The NoteTaker's session summary was saved */
+  'notes:written': {
+    sessionId: string;
+    path: string;
+  };
+}
+
+export type OrchestratorEventName = keyof OrchestratorEvents;
+
+/**
+ * Every event name, e.g. for subscribing to all of them. Keyed by event so
+ * an event missing here fails to compile.
+ */
+export const ORCHESTRATOR_EVENT_NAMES = Object.keys({
+  'iteration:start': true,
+  'llm:response': true,
+  'action:parsed': true,
+  'action:result': true,
+  'compression': true,
+  'terminate': true,
+  'notes:written': true,
+} satisfies Record<OrchestratorEventName, true>) as OrchestratorEventName[];
+
+export type OrchestratorEventListener<K extends OrchestratorEventName> = (
+  payload: OrchestratorEvents[K]
+) => void;
+
+/**
+ * ActionHookDecision - What an action hook wants done with an action.
+ *
+ * - `allow`: execute the action as is (same as returning nothing)
+ * - `veto`: skip it; the agent sees `reason` as a failed result
+ * - `rewrite`: execute `action` instead
+ */
+export type ActionHookDecision =
+  | { type: 'allow' }
+  | { type: 'veto'; reason: string }
+  | { type: 'rewrite'; action: ParsedAction };
+
+/**
+ * ActionHook - Runs before every action. Hooks run in registration order;
+ * a rewrite is passed on to the next hook and the first veto wins.
+ */
+export type ActionHook = (
+  extension: IExtension,
+  action: ParsedAction,
+  context: RunContext
+) => ActionHookDecision | void | Promise<ActionHookDecision | void>;
+
+/**
+ * OrchestratorEventEmitter - Typed publish/subscribe for orchestrator events.
+ *
+ * Listeners run synchronously in subscription order. A listener that throws
+ * is logged and does not affect the run or the other listeners.
+ */
+export class OrchestratorEventEmitter {
+  private listeners = new Map<OrchestratorEventName, Set<(payload: never) => void>>();
+  private logger: Logger;
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+  }
+
+  /**
+   * Subscribe to an event.
+   *
+   * @returns A function that removes the listener
+   */
+  on<K extends OrchestratorEventName>(event: K, listener: OrchestratorEventListener<K>): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Subscribe to a single occurrence of an event.
+   */
+  once<K extends OrchestratorEventName>(event: K, listener: OrchestratorEventListener<K>): () => void {
+    const off = this.on(event, (payload) => {
+      off();
+      listener(payload);
+    });
+    return off;
+  }
+
+  /**
+   * Remove a listener.
+   */
+  off<K extends OrchestratorEventName>(event: K, listener: OrchestratorEventListener<K>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  /**
+   * Deliver an event to its listeners.
+   */
+  emit<K extends OrchestratorEventName>(event: K, payload: OrchestratorEvents[K]): void {
+    const set = this.listeners.get(event);
+    if (!set) {
+      return;
+    }
+    for (const listener of [...set] as Array<OrchestratorEventListener<K>>) {
+      try {
+        listener(payload);
+      } catch (error) {
+        this.logger.error(`Listener for '${event}' threw`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Create a new event emitter.
+ */
+export function createEventEmitter(logger: Logger): OrchestratorEventEmitter {
+  return new OrchestratorEventEmitter(logger);
+}
@@ -0,0 +1,258 @@
+/**
+ * ArtifactRead Extension - Page through and search stored artifacts
+ *
+ * Tool outputs too long for working memory are saved as artifacts and
+ * replaced by a preview naming the artifact id. This extension lets the
+ * agent read any part of the full output, or search it, when it needs to.
+ *
+ * @example
+ * LLM output: <artifact_read id="out_abc123" range="200-400"/>
+ * LLM output: <artifact_read id="out_abc123" grep="error|warning"/>
+ */
+
+import type { IExtension, ParsedAction, ExecutionResult, RunContext, JSONSchema } from '../types.js';
+
+/**
+ * ArtifactReadExtension configuration options.
+ */
+export interface ArtifactReadExtensionOptions {
+  /** Lines returned when no range is given, and most grep matches shown */
+  maxLines?: number;
+
+  /** Maximum characters returned per call */
+  maxOutputLength?: number;
+
+  /** Longer lines are cut, e.g. minified files or JSON on one line */
+  maxLineLength?: number;
+}
+
+const DEFAULT_OPTIONS: Required<ArtifactReadExtensionOptions> = {
+  maxLines: 200,
+  maxOutputLength: 8000,
+  maxLineLength: 500,
+};
+
+type ArtifactReadParams = {
+  id: string;
+  range?: string;
+  grep?: string;
+};
+
+/**
+ * ArtifactReadExtension - Read-only access to stored artifacts.
+ */
+export class ArtifactReadExtension implements IExtension {
+  readonly name = 'artifact_read';
+  readonly description = 'Read part of a stored artifact, such as a tool output too long to show in full. ' +
+    'Use range="start-end" (1-based line numbers) to page through it, or grep="regex" to find matching lines: ' +
+    '<artifact_read id="..." range="1-200"/>';
+  readonly triggerTag = 'artifact_read';
+  readonly signalsContinuation = true;
+  readonly parametersSchema: JSONSchema = {
+    type: 'object',
+    properties: {
+      id: { type: 'string', description: 'Artifact id, as given in the output preview' },
+      range: { type: 'string', description: 'Lines to read, e.g. "1-200" or "500-" (default: the first 200)' },
+      grep: { type: 'string', description: 'Only return lines matching this regular expression (case-insensitive)' },
+    },
+    required: ['id'],
+    additionalProperties: false,
+  };
+
+  private options: Required<ArtifactReadExtensionOptions>;
+
+  constructor(options: ArtifactReadExtensionOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Parse the artifact id, range and pattern from the tag attributes.
+   * The id may also be given as the tag content.
+   */
+  parse(content: string, attributes: Record<string, string> = {}): ParsedAction | null {
+    const id = attributes.id ?? content.trim();
+    if (!id) {
+      return null;
+    }
+
+    const params: ArtifactReadParams = { id };
+    if (attributes.range !== undefined) {
+      params.range = attributes.range;
+    }
+    if (attributes.grep !== undefined) {
+      params.grep = attributes.grep;
+    }
+
+    return {
+      tool: 'artifact_read',
+      parameters: params,
+      rawContent: content,
+    };
+  }
+
+  /**
+   * Reading an artifact has no side effects.
+   */
+  isReadOnly(): boolean {
+    return true;
+  }
+
+  /**
+   * Return the requested lines of the artifact.
+   */
+  async execute(action: ParsedAction, context: RunContext): Promise<ExecutionResult> {
+    const params = action.parameters as ArtifactReadParams;
+
+    const artifact = await context.artifacts.get(params.id);
+    if (!artifact || artifact.content === undefined) {
+      return {
+        success: false,
+        output: `Artifact "${params.id}" not found`,
+        error: {
+          code: 'ARTIFACT_NOT_FOUND',
+          message: `No stored content for artifact ${params.id}`,
+          recoverable: true,
+          suggestion: 'Use the artifact id exactly as given in the output preview',
+        },
+      };
+    }
+    if (typeof artifact.content !== 'string') {
+      return {
+        success: false,
+        output: `Artifact "${params.id}" (${artifact.mimeType}) is binary and cannot be read as text`,
+        error: {
+          code: 'BINARY_ARTIFACT',
+          message: `Artifact ${params.id} has mime type ${artifact.mimeType}`,
+          recoverable: true,
+        },
+      };
+    }
+
+    const lines = artifact.content.replace(/\n$/, '').split('\n');
+    const range = this.parseRange(params.range, lines.length);
+    if (!range) {
+      return {
+        success: false,
+        output: `Invalid range "${params.range}" for artifact "${params.id}" with ${lines.length} lines`,
+        error: {
+          code: 'INVALID_RANGE',
+          message: `Range must look like "start-end", "start-" or "line", within 1-${lines.length}`,
+          recoverable: true,
+          suggestion: `Use a range such as range="1-${Math.min(lines.length, this.options.maxLines)}"`,
+        },
+      };
+    }
+
+    let selected: number[];
+    let description: string;
+    if (params.grep !== undefined) {
+      const matcher = this.createMatcher(params.grep);
+      selected = [];
+      for (let line = range.start; line <= range.end; line++) {
+        if (matcher(lines[line - 1])) {
+          selected.push(line);
+        }
+      }
+      description = `${selected.length} lines matching "${params.grep}" in lines ${range.start}-${range.end}`;
+    } else {
+      const end = params.range !== undefined ? range.end : Math.min(range.end, this.options.maxLines);
+      selected = [];
+      for (let line = range.start; line <= end; line++) {
+        selected.push(line);
+      }
+      description = `lines ${range.start}-${end}`;
+    }
+
+    const width = String(lines.length).length;
+    const body: string[] = [];
+    let length = 0;
+    let shown = 0;
+    for (const line of selected) {
+      if (params.grep !== undefined && shown >= this.options.maxLines) {
+        break;
+      }
+      const formatted = `${String(line).padStart(width)}| ${this.clipLine(lines[line - 1])}`;
+      if (length + formatted.length + 1 > this.options.maxOutputLength) {
+        break;
+      }
+      body.push(formatted);
+      length += formatted.length + 1;
+      shown++;
+    }
+
+    const header = `Artifact ${artifact.id} (${artifact.name}, ${lines.length} lines): ${description}`;
+    let footer = '';
+    if (shown < selected.length) {
+      const next = selected[shown];
+      footer = params.grep !== undefined
+        ? `\n... [${selected.length - shown} more matches; narrow the pattern or search from range="${next}-"]`
+        : `\n... [output limit reached; continue with range="${next}-${selected[selected.length - 1]}"]`;
+    } else if (params.grep === undefined && selected.length > 0 && selected[selected.length - 1] < lines.length) {
+      const next = selected[selected.length - 1] + 1;
+      footer = `\n... [${lines.length - next + 1} more lines; continue with range="${next}-${Math.min(lines.length, next + this.options.maxLines - 1)}"]`;
+    }
+
+    return {
+      success: true,
+      output: `${header}\n${body.join('\n')}${footer}`,
+      userOutput: `📄 ${artifact.name}: ${description}`,
+    };
+  }
+
+  /**
+   * Parse a 1-based, inclusive line range, clamping the end to the
+   * artifact's length. Returns null if the range is malformed or empty.
+   */
+  private parseRange(range: string | undefined, lineCount: number): { start: number; end: number } | null {
+    if (range === undefined || range.trim() === '') {
+      return { start: 1, end: lineCount };
+    }
+
+    const match = range.trim().match(/^(\d+)?\s*(-)?\s*(\d+)?$/);
+    if (!match || (match[1] === undefined && match[3] === undefined)) {
+      return null;
+    }
+
+    const start = match[1] !== undefined ? parseInt(match[1], 10) : 1;
+    let end: number;
+    if (match[2] === undefined) {
+      end = start;
+    } else {
+      end = match[3] !== undefined ? parseInt(match[3], 10) : lineCount;
+    }
+    end = Math.min(end, lineCount);
+
+    if (start < 1 || start > end) {
+      return null;
+    }
+    return { start, end };
+  }
+
+  /**
+   * Match lines against a case-insensitive regex, or as a plain substring
+   * if the pattern is not a valid regex.
+   */
+  private createMatcher(pattern: string): (line: string) => boolean {
+    try {
+      const regex = new RegExp(pattern, 'i');
+      return line => regex.test(line);
+    } catch {
+      const needle = pattern.toLowerCase();
+      return line => line.toLowerCase().includes(needle);
+    }
+  }
+
+  private clipLine(line: string): string {
+    if (line.length <= this.options.maxLineLength) {
+      return line;
+    }
+    return `${line.substring(0, this.options.maxLineLength)}... [+${line.length - this.options.maxLineLength} characters]`;
+  }
+}
+
+/**
+ * Create a new ArtifactRead extension instance.
+ */
+export function createArtifactReadExtension(options?: ArtifactReadExtensionOptions): ArtifactReadExtension {
+  return new ArtifactReadExtension(options);
+}
@@ -10,7 +10,7 @@
  */
 
 import { spawn } from 'child_process';
-import type { IExtension, ParsedAction, ExecutionResult, RunContext } from '../types.js';
+import type { IExtension, ParsedAction, ExecutionResult, RunContext, JSONSchema } from '../types.js';
 
 /**
  * BashExtension configuration options.
@@ -22,25 +22,32 @@ export interface BashExtensionOptions {
   /** Command timeout in milliseconds */
   timeout?: number;
   
-  /** Maximum output length before truncation */
+  /**
+   * Maximum output length before truncation. Long outputs are offloaded to
+   * an artifact by the orchestrator (see RunConfig.maxResultLength), so
+   * this only guards against runaway output.
+   */
   maxOutputLength?: number;
   
-  /** Blocked command patterns (for safety) */
+  /** Blocked command patterns (for safety). Replaces DEFAULT_BLOCKED_PATTERNS */
   blockedPatterns?: RegExp[];
   
   /** Whether to use PowerShell on Windows */
   usePowerShell?: boolean;
 }
 
+/** Commands blocked unless blockedPatterns is given */
+export const DEFAULT_BLOCKED_PATTERNS: RegExp[] = [
+  /rm\s+-rf\s+\//, // Dangerous recursive delete
+  /:(){ :|:& };:/, // Fork bomb
+  />\s*\/dev\/sd/, // Direct disk writes
+];
+
 const DEFAULT_OPTIONS: Required<BashExtensionOptions> = {
   cwd: process.cwd(),
   timeout: 30000,
-  maxOutputLength: 10000,
-  blockedPatterns: [
-    /rm\s+-rf\s+\//, // Dangerous recursive delete
-    /:(){ :|:& };:/, // Fork bomb
-    />\s*\/dev\/sd/, // Direct disk writes
-  ],
+  maxOutputLength: 10 * 1024 * 1024, // 10MB
+  blockedPatterns: DEFAULT_BLOCKED_PATTERNS,
   usePowerShell: process.platform === 'win32',
 };
 
@@ -52,6 +59,13 @@ export class BashExtension implements IExtension {
   readonly description = 'Execute shell commands and return output. Use for file operations, running scripts, checking system state.';
   readonly triggerTag = 'bash';
   readonly signalsContinuation = true;
+  readonly parametersSchema: JSONSchema = {
+    type: 'object',
+    properties: {
+      command: { type: 'string', description: 'Shell command to execute' },
+    },
+    required: ['command'],
+  };
 
   private options: Required<BashExtensionOptions>;
 
@@ -101,7 +115,7 @@ export class BashExtension implements IExtension {
     context.logger.info('Executing bash command', { command });
 
     try {
-      const result = await this.runCommand(command);
+      const result = await this.runCommand(command, context.signal);
       
       // Truncate if too long
       let output = result.stdout;
@@ -129,6 +143,17 @@ export class BashExtension implements IExtension {
         userOutput: `$ ${command}\n${output || '(no output)'}`,
       };
     } catch (error) {
+      if (context.signal?.aborted === true) {
+        return {
+          success: false,
+          output: `Command cancelled: ${command}`,
+          error: {
+            code: 'CANCELLED',
+            message: 'Command was killed because the run was cancelled',
+            recoverable: true,
+          },
+        };
+      }
       return {
         success: false,
         output: `Failed to execute command: ${error instanceof Error ? error.message : String(error)}`,
@@ -143,8 +168,12 @@ export class BashExtension implements IExtension {
 
   /**
    * Run a command and capture output.
+   * The child process is killed if the signal is aborted.
    */
-  private runCommand(command: string): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+  private runCommand(
+    command: string,
+    signal?: AbortSignal
+  ): Promise<{ stdout: string; stderr: string; exitCode: number }> {
     return new Promise((resolve, reject) => {
       const shell = this.options.usePowerShell ? 'powershell.exe' : '/bin/bash';
       const shellArgs = this.options.usePowerShell ? ['-Command', command] : ['-c', command];
@@ -153,6 +182,7 @@ export class BashExtension implements IExtension {
         cwd: this.options.cwd,
         timeout: this.options.timeout,
         env: process.env,
+        signal,
       });
 
       let stdout = '';
@@ -15,7 +15,7 @@
 import { readFile, writeFile, mkdir } from 'fs/promises';
 import { dirname, resolve, isAbsolute } from 'path';
 import { existsSync } from 'fs';
-import type { IExtension, ParsedAction, ExecutionResult, RunContext } from '../types.js';
+import type { IExtension, ParsedAction, ExecutionResult, RunContext, JSONSchema } from '../types.js';
 
 /**
  * FileEditExtension configuration options.
@@ -50,13 +50,13 @@ const DEFAULT_OPTIONS: Required<FileEditExtensionOptions> = {
 
 type EditType = 'create' | 'replace' | 'read' | 'append';
 
-interface FileEditParams {
+type FileEditParams = {
   type: EditType;
   path: string;
   content?: string;
   oldContent?: string;
   newContent?: string;
-}
+};
 
 /**
  * FileEditExtension - File manipulation for the agent.
@@ -66,6 +66,22 @@ export class FileEditExtension implements IExtension {
   readonly description = 'Create, modify, or read files. Types: create (new file), replace (find/replace), read (get contents), append (add to end).';
   readonly triggerTag = 'file_edit';
   readonly signalsContinuation = true;
+  readonly parametersSchema: JSONSchema = {
+    type: 'object',
+    properties: {
+      type: {
+        type: 'string',
+        enum: ['create', 'replace', 'read', 'append'],
+        description: 'Operation to perform',
+      },
+      path: { type: 'string', description: 'File path, relative to the working directory' },
+      content: { type: 'string', description: 'File content for create and append' },
+      oldContent: { type: 'string', description: 'Exact text to find, for replace' },
+      newContent: { type: 'string', description: 'Replacement text, for replace' },
+    },
+    required: ['type', 'path'],
+    additionalProperties: false,
+  };
 
   private options: Required<FileEditExtensionOptions>;
 
@@ -101,7 +117,7 @@ export class FileEditExtension implements IExtension {
             path,
             oldContent: oldMatch[1],
             newContent: newMatch[1],
-          } as unknown as Record<string, unknown>,
+          },
           rawContent: content,
         };
       }
@@ -112,7 +128,7 @@ export class FileEditExtension implements IExtension {
           type: 'create',
           path,
           content: fileContent,
-        } as unknown as Record<string, unknown>,
+        },
         rawContent: content,
       };
     }
@@ -149,16 +165,23 @@ export class FileEditExtension implements IExtension {
 
     return {
       tool: 'file_edit',
-      parameters: params as unknown as Record<string, unknown>,
+      parameters: params,
       rawContent: content,
     };
   }
 
+  /**
+   * Reads have no side effects; every other operation writes.
+   */
+  isReadOnly(action: ParsedAction): boolean {
+    return action.parameters.type === 'read';
+  }
+
   /**
    * Execute the file operation.
    */
   async execute(action: ParsedAction, context: RunContext): Promise<ExecutionResult> {
-    const params = action.parameters as unknown as FileEditParams;
+    const params = action.parameters as FileEditParams;
     const filePath = this.resolvePath(params.path);
 
     // Safety check: blocked paths
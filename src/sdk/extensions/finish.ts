@@ -8,7 +8,7 @@
  * LLM output: <finish>Task completed successfully. Created proof.txt with the requested content.</finish>
  */
 
-import type { IExtension, ParsedAction, ExecutionResult, RunContext } from '../types.js';
+import type { IExtension, ParsedAction, ExecutionResult, RunContext, JSONSchema } from '../types.js';
 
 /**
  * FinishExtension - Signals task completion to the orchestrator.
@@ -23,6 +23,14 @@ export class FinishExtension implements IExtension {
    */
   readonly signalsContinuation = false;
 
+  readonly parametersSchema: JSONSchema = {
+    type: 'object',
+    properties: {
+      message: { type: 'string', description: 'Final result message for the user' },
+    },
+    required: ['message'],
+  };
+
   /**
    * Parse finish message from LLM output.
    */
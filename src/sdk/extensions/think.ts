@@ -10,7 +10,7 @@
  * LLM output: <think>Let me analyze the error message...</think>
  */
 
-import type { IExtension, ParsedAction, ExecutionResult, RunContext } from '../types.js';
+import type { IExtension, ParsedAction, ExecutionResult, RunContext, JSONSchema } from '../types.js';
 
 /**
  * ThinkExtension - Internal reasoning for the agent.
@@ -23,6 +23,13 @@ export class ThinkExtension implements IExtension {
   readonly description = 'Internal reasoning and planning. Use to think through problems before acting. Does not produce external output.';
   readonly triggerTag = 'think';
   readonly signalsContinuation = false; // Thinking doesn't need follow-up
+  readonly parametersSchema: JSONSchema = {
+    type: 'object',
+    properties: {
+      thought: { type: 'string', description: 'Your reasoning' },
+    },
+    required: ['thought'],
+  };
 
   /**
    * Parse thinking content.
@@ -35,6 +42,13 @@ export class ThinkExtension implements IExtension {
     };
   }
 
+  /**
+   * Thinking has no side effects.
+   */
+  isReadOnly(): boolean {
+    return true;
+  }
+
   /**
    * "Execute" the thinking - just log it for observability.
    */
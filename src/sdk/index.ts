@@ -7,8 +7,85 @@
  */
 
 // Core SDK components
-export { ConfuciusOrchestrator, createOrchestrator } from './orchestrator.js';
+export { ConfuciusOrchestrator, createOrchestrator, isStreamingProvider } from './orchestrator.js';
+export type {
+  LLMProvider,
+  LLMInvokeOptions,
+  StreamingLLMProvider,
+  StreamCallbacks,
+  RunOptions,
+  OrchestratorOptions,
+} from './orchestrator.js';
 export { ExtensionRegistry, createRegistry } from './registry.js';
+export { OrchestratorEventEmitter, createEventEmitter, ORCHESTRATOR_EVENT_NAMES } from './events.js';
+export type {
+  OrchestratorEvents,
+  OrchestratorEventName,
+  OrchestratorEventListener,
+  ActionHook,
+  ActionHookDecision,
+} from './events.js';
+export { validateSchema, describeSchema } from './schema.js';
+export { RunRecorder, createRunRecorder, exitCodeFor, summarizeArtifact, toJsonResult, EXIT_CODES } from './run-report.js';
+export type { RunReport, ActionReport, ArtifactSummary } from './run-report.js';
+export { ChatSession } from './chat.js';
+export type { ChatSessionBackend, ChatTurn, CompressionReport } from './chat.js';
+export { LoopDetector, createLoopDetector, fingerprintAction } from './loop-detector.js';
+export type { LoopVerdict } from './loop-detector.js';
+export {
+  ApprovalGate,
+  RuleApprovalPolicy,
+  createApprovalGate,
+  loadApprovalRules,
+  actionSubject,
+  DEFAULT_APPROVAL_RULES,
+} from './approval.js';
+export type {
+  ApprovalClass,
+  ApprovalRule,
+  ApprovalClassification,
+  ApprovalPolicy,
+  ApprovalRequest,
+  ApprovalAnswer,
+  Approver,
+  ApprovalRecord,
+  ApprovalVerdict,
+  ApprovalGateOptions,
+} from './approval.js';
+export { CostTracker, createCostTracker, resolvePricing, estimateCost, DEFAULT_MODEL_PRICING } from './cost.js';
+export {
+  BpeTokenizer,
+  CachedTokenizer,
+  CharEstimateTokenizer,
+  getTokenizer,
+  resolveEncoding,
+  MODEL_ENCODINGS,
+} from './tokenizer.js';
+export type { Tokenizer, BpeEncoding } from './tokenizer.js';
+export {
+  DEFAULT_MODEL_LIMITS,
+  DEFAULT_COMPRESSION_FRACTION,
+  FALLBACK_COMPRESSION_THRESHOLD,
+  lookupModel,
+  resolveModelLimits,
+  computeContextBudget,
+} from './models.js';
+export type { ContextBudget } from './models.js';
+export {
+  LLMSummaryStrategy,
+  ToolOutputElisionStrategy,
+  ImportanceRetentionStrategy,
+  HierarchicalSummaryStrategy,
+  createCompressionStrategy,
+  SUMMARY_PREFIX,
+  OFFLOAD_NOTE_PREFIX,
+} from './compression.js';
+export type {
+  CompressionStrategy,
+  CompressionStrategyName,
+  CompressionContext,
+  CompressionResult,
+} from './compression.js';
 
 // Extensions
 export * from './extensions/index.js';
@@ -18,6 +95,13 @@ export * from './memory/index.js';
 
 // Agents
 export * from './agents/index.js';
+export * from './providers/index.js';
+export * from './artifacts/index.js';
+export * from './testing/index.js';
+
+// Config files (for confucius.config.ts)
+export { defineConfig } from '../core/config.js';
+export type { ConfuciusConfig } from '../core/config.js';
 
 // Types
 export type {
@@ -26,6 +110,9 @@ export type {
   ParsedAction,
   ExecutionResult,
   ExtensionError,
+  JSONSchema,
+  ToolDefinition,
+  ToolCall,
   
   // Memory system
   Message,
@@ -38,9 +125,17 @@ export type {
   RunConfig,
   OrchestratorState,
   LLMResponse,
+  RunBudget,
+  LoopDetectionConfig,
+  ModelPricing,
+  ModelLimits,
+  CostCategory,
+  CostBreakdown,
+  UsageCost,
   
   // Artifacts
   Artifact,
+  ArtifactFilter,
   ArtifactStore,
   
   // Logging
@@ -0,0 +1,136 @@
+/**
+ * Confucius SDK - Loop Detection
+ *
+ * Spots an agent that is going in circles: the same set of actions in
+ * consecutive iterations, or the same action failing the same way again
+ * and again. Actions are compared by fingerprint (extension name plus
+ * parameters with whitespace and key order normalized), so cosmetic
+ * differences in the model's output don't hide a repeat.
+ */
+
+import type { IExtension, ParsedAction, ExecutionResult, LoopDetectionConfig } from './types.js';
+
+/** Defaults for LoopDetectionConfig */
+const DEFAULT_LOOP_DETECTION: Required<LoopDetectionConfig> = {
+  enabled: true,
+  warnAfter: 2,
+  replanAfter: 3,
+  maxRepeats: 5,
+};
+
+/**
+ * LoopVerdict - What the orchestrator should do after an iteration.
+ *
+ * - `none`: no loop
+ * - `warn`: inject a corrective message
+ * - `replan`: ask the Architect for a new approach
+ * - `stuck`: give up and terminate the run
+ */
+export interface LoopVerdict {
+  action: 'none' | 'warn' | 'replan' | 'stuck';
+
+  /** How many times the looping behaviour has been seen */
+  repeats: number;
+
+  /** Human-readable description of the repeat, for logs and the agent */
+  description: string;
+}
+
+/**
+ * Normalize parameters so equivalent actions compare equal: strings are
+ * trimmed with whitespace collapsed, and object keys are sorted.
+ */
+function normalize(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.trim().replace(/\s+/g, ' ');
+  }
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, v]) => v !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([k, v]) => [k, normalize(v)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Fingerprint of an action: extension name plus normalized parameters.
+ */
+export function fingerprintAction(extensionName: string, action: ParsedAction): string {
+  return `${extensionName}:${JSON.stringify(normalize(action.parameters))}`;
+}
+
+/**
+ * LoopDetector - Tracks action fingerprints across iterations of one run.
+ */
+export class LoopDetector {
+  private config: Required<LoopDetectionConfig>;
+  private lastSignature: string | null = null;
+  private streak = 0;
+  private failures = new Map<string, number>();
+
+  constructor(config: LoopDetectionConfig = {}) {
+    this.config = { ...DEFAULT_LOOP_DETECTION, ...config };
+  }
+
+  /**
+   * Record the actions executed in one iteration and decide whether the
+   * agent is looping.
+   */
+  record(executed: Array<{ extension: IExtension; action: ParsedAction; result: ExecutionResult }>): LoopVerdict {
+    if (!this.config.enabled || executed.length === 0) {
+      return { action: 'none', repeats: 0, description: '' };
+    }
+
+    const fingerprints = executed.map(({ extension, action }) => fingerprintAction(extension.name, action));
+
+    // Same actions as the previous iteration?
+    const signature = fingerprints.join('\n');
+    this.streak = signature === this.lastSignature ? this.streak + 1 : 1;
+    this.lastSignature = signature;
+
+    // Same action failing with the same output as before?
+    let failureRepeats = 0;
+    let failedAction = '';
+    executed.forEach(({ result }, i) => {
+      if (result.success) {
+        return;
+      }
+      const key = `${fingerprints[i]}\u0000${result.error?.code ?? ''}\u0000${String(normalize(result.output))}`;
+      const count = (this.failures.get(key) ?? 0) + 1;
+      this.failures.set(key, count);
+      if (count > failureRepeats) {
+        failureRepeats = count;
+        failedAction = fingerprints[i];
+      }
+    });
+
+    const repeats = Math.max(this.streak, failureRepeats);
+    const description = failureRepeats >= this.streak
+      ? `${failedAction} failed with the same result ${failureRepeats} times`
+      : `the same ${executed.length === 1 ? 'action' : 'actions'} (${fingerprints.join(', ')}) ran in ${this.streak} consecutive iterations`;
+
+    if (repeats >= this.config.maxRepeats) {
+      return { action: 'stuck', repeats, description };
+    }
+    if (repeats === this.config.replanAfter) {
+      return { action: 'replan', repeats, description };
+    }
+    if (repeats >= this.config.warnAfter) {
+      return { action: 'warn', repeats, description };
+    }
+    return { action: 'none', repeats, description };
+  }
+}
+
+/**
+ * Create a new loop detector.
+ */
+export function createLoopDetector(config?: LoopDetectionConfig): LoopDetector {
+  return new LoopDetector(config);
+}
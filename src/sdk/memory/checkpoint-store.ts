@@ -0,0 +1,183 @@
+/**
+ * Confucius SDK - Session Checkpoint Store
+ *
+ * Persists orchestrator progress to .ralph/sessions/<sessionId>/checkpoint.json
+ * after every iteration, so an interrupted run can be resumed from where
+ * it stopped.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { Logger, Message, Note, OrchestratorState, CostBreakdown } from '../types.js';
+import type { WorkingMemoryManager } from './working-memory.js';
+
+/** Bumped when the checkpoint format changes incompatibly */
+const CHECKPOINT_VERSION = 1;
+
+/**
+ * SessionCheckpoint - Everything needed to continue a run.
+ */
+export interface SessionCheckpoint {
+  version: number;
+
+  /** Session being checkpointed */
+  sessionId: string;
+
+  /** The original task */
+  task: string;
+
+  /** Last completed iteration */
+  iteration: number;
+
+  /** Termination reason, once the run has ended */
+  terminationReason?: OrchestratorState['terminationReason'];
+
+  /** Hierarchical memory, as returned by WorkingMemoryManager.export() */
+  memory: ReturnType<WorkingMemoryManager['export']>;
+
+  /** Usage so far, so budgets carry over on resume */
+  cost?: CostBreakdown;
+
+  /** When this checkpoint was written */
+  updatedAt: Date;
+}
+
+/**
+ * CheckpointStore - Reads and writes session checkpoints.
+ */
+export class CheckpointStore {
+  private logger: Logger;
+  private sessionsDir: string;
+
+  constructor(logger: Logger, workingDirectory: string) {
+    this.logger = logger;
+    this.sessionsDir = path.join(workingDirectory, '.ralph', 'sessions');
+  }
+
+  /**
+   * Write a checkpoint, replacing the previous one for the session.
+   *
+   * The file is written to a temporary path and renamed into place so a
+   * crash mid-write never leaves a truncated checkpoint behind.
+   */
+  async save(checkpoint: Omit<SessionCheckpoint, 'version' | 'updatedAt'>): Promise<void> {
+    const filepath = this.getPath(checkpoint.sessionId);
+    const data: SessionCheckpoint = {
+      ...checkpoint,
+      version: CHECKPOINT_VERSION,
+      updatedAt: new Date(),
+    };
+
+    try {
+      await fs.mkdir(path.dirname(filepath), { recursive: true });
+      const tmpPath = `${filepath}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(data, null, 2), 'utf-8');
+      await fs.rename(tmpPath, filepath);
+
+      this.logger.debug('[Checkpoint] Saved', {
+        sessionId: checkpoint.sessionId,
+        iteration: checkpoint.iteration,
+      });
+    } catch (error) {
+      this.logger.error('[Checkpoint] Failed to save', {
+        sessionId: checkpoint.sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Load the latest checkpoint for a session.
+   * Returns null if the session has no checkpoint.
+   */
+  async load(sessionId: string): Promise<SessionCheckpoint | null> {
+    const filepath = this.getPath(sessionId);
+
+    let raw: string;
+    try {
+      raw = await fs.readFile(filepath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    const data = JSON.parse(raw) as SessionCheckpoint;
+    if (data.version !== CHECKPOINT_VERSION) {
+      throw new Error(
+        `Unsupported checkpoint version ${data.version} for session ${sessionId} (expected ${CHECKPOINT_VERSION})`
+      );
+    }
+
+    this.logger.info('[Checkpoint] Loaded', {
+      sessionId,
+      iteration: data.iteration,
+      path: filepath,
+    });
+
+    return {
+      ...data,
+      updatedAt: new Date(data.updatedAt),
+      memory: {
+        ...data.memory,
+        session: data.memory.session.map(reviveMessage),
+        entry: data.memory.entry.map(reviveMessage),
+        runnable: data.memory.runnable.map(reviveMessage),
+        notes: data.memory.notes.map(([key, note]): [string, Note] => [
+          key,
+          { ...note, updatedAt: new Date(note.updatedAt) },
+        ]),
+      },
+    };
+  }
+
+  /**
+   * List the IDs of all sessions that have a checkpoint.
+   */
+  async list(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.sessionsDir, { withFileTypes: true });
+      const ids: string[] = [];
+      for (const entry of entries) {
+        if (entry.isDirectory()) {
+          try {
+            await fs.access(this.getPath(entry.name));
+            ids.push(entry.name);
+          } catch {
+            // Directory without a checkpoint
+          }
+        }
+      }
+      return ids;
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Get the checkpoint file path for a session.
+   */
+  getPath(sessionId: string): string {
+    if (!/^[A-Za-z0-9_-]+$/.test(sessionId)) {
+      throw new Error(`Invalid session ID: ${sessionId}`);
+    }
+    return path.join(this.sessionsDir, sessionId, 'checkpoint.json');
+  }
+}
+
+/**
+ * JSON turns Dates into strings; restore message timestamps.
+ */
+function reviveMessage(message: Message): Message {
+  return message.timestamp !== undefined
+    ? { ...message, timestamp: new Date(message.timestamp) }
+    : message;
+}
+
+/**
+ * Create a new CheckpointStore instance.
+ */
+export function createCheckpointStore(logger: Logger, workingDirectory: string): CheckpointStore {
+  return new CheckpointStore(logger, workingDirectory);
+}
@@ -6,6 +6,9 @@
  */
 
 export { WorkingMemoryManager, createMemoryManager } from './working-memory.js';
+export type { EntryAttachment } from './working-memory.js';
+export { CheckpointStore, createCheckpointStore } from './checkpoint-store.js';
+export type { SessionCheckpoint } from './checkpoint-store.js';
 
 // Re-export types
 export type { WorkingMemory, MemoryScope, Message, Note } from '../types.js';
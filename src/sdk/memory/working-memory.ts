@@ -21,6 +21,7 @@
  */
 
 import type { WorkingMemory, Message, Note, MemoryScope, Logger } from '../types.js';
+import { getTokenizer, type Tokenizer } from '../tokenizer.js';
 
 /**
  * HierarchicalMemory - Internal structure for scope-based storage.
@@ -49,6 +50,15 @@ interface HierarchicalMemory {
   notes: Map<string, Note>;
 }
 
+/**
+ * EntryAttachment - A file handed to the agent along with its task.
+ */
+export interface EntryAttachment {
+  /** Path shown to the agent, usually relative to the working directory */
+  path: string;
+  content: string;
+}
+
 /**
  * WorkingMemoryManager - Manages the agent's hierarchical context window.
  * 
@@ -60,9 +70,16 @@ interface HierarchicalMemory {
 export class WorkingMemoryManager {
   private memory: HierarchicalMemory;
   private logger: Logger;
+  private tokenizer: Tokenizer;
 
-  constructor(logger: Logger, maxTokens: number = 100000) {
+  /**
+   * @param logger - Logger for observability
+   * @param maxTokens - Maximum tokens before compression
+   * @param tokenizer - Counts message tokens. Default: cl100k_base
+   */
+  constructor(logger: Logger, maxTokens: number = 100000, tokenizer: Tokenizer = getTokenizer()) {
     this.logger = logger;
+    this.tokenizer = tokenizer;
     this.memory = {
       session: [],
       entry: [],
@@ -162,7 +179,7 @@ export class WorkingMemoryManager {
     }
 
     // Update token count for the scope
-    const tokens = this.estimateTokens(message.content);
+    const tokens = this.countTokens(message.content);
     this.memory.tokenCounts[scope] += tokens;
 
     this.logger.debug('Message added to memory', {
@@ -197,24 +214,51 @@ export class WorkingMemoryManager {
   /**
    * Set the entry scope with the user's task.
    * Clears any previous entry content.
+   * 
+   * Attached files are included after the task in the same message, so
+   * they survive compression like the task itself.
    */
-  setEntry(task: string): void {
+  setEntry(task: string, attachments: EntryAttachment[] = []): void {
     // Clear existing entry
     this.memory.entry = [];
     this.memory.tokenCounts.entry = 0;
 
+    const files = attachments.map(a => `<attachment path="${a.path}">\n${a.content}\n</attachment>`);
     this.addMessage({
       role: 'user',
-      content: task,
+      content: files.length > 0 ? `${task}\n\nAttached files:\n\n${files.join('\n\n')}` : task,
       scope: 'entry',
     });
 
     this.logger.info('Entry scope set', {
       taskPreview: task.substring(0, 100),
+      attachments: attachments.map(a => a.path),
       tokens: this.memory.tokenCounts.entry,
     });
   }
 
+  /**
+   * Start a follow-up task in a multi-turn session.
+   *
+   * The previous task and its execution trace move into the runnable scope
+   * as history, so they stay visible (and can be compressed like any other
+   * trace), and the entry scope is set to the new task, which compression
+   * never removes.
+   */
+  startFollowUp(task: string, attachments: EntryAttachment[] = []): void {
+    const history: Message[] = [
+      ...this.memory.entry.map(m => ({
+        ...m,
+        content: m.role === 'user' ? `[PREVIOUS TASK]: ${m.content}` : m.content,
+        scope: 'runnable' as MemoryScope,
+      })),
+      ...this.memory.runnable,
+    ];
+
+    this.setEntry(task, attachments);
+    this.compressRunnable(history);
+  }
+
   /**
    * Add a message to runnable scope (most common operation).
    */
@@ -290,7 +334,7 @@ export class WorkingMemoryManager {
     }));
 
     this.memory.tokenCounts.runnable = compressedMessages.reduce(
-      (sum, m) => sum + this.estimateTokens(m.content),
+      (sum, m) => sum + this.countTokens(m.content),
       0
     );
 
@@ -372,6 +416,7 @@ export class WorkingMemoryManager {
     };
     total: { messages: number; tokens: number };
     notes: number;
+    tokenizer: string;
   } {
     return {
       scopes: {
@@ -393,6 +438,7 @@ export class WorkingMemoryManager {
         tokens: this.getTotalTokenCount(),
       },
       notes: this.memory.notes.size,
+      tokenizer: this.tokenizer.name,
     };
   }
 
@@ -453,10 +499,10 @@ export class WorkingMemoryManager {
   }
 
   /**
-   * Estimate token count for a string (rough: 4 chars = 1 token).
+   * Count the tokens in a message's content.
    */
-  private estimateTokens(content: string): number {
-    return Math.ceil(content.length / 4);
+  private countTokens(content: string): number {
+    return this.tokenizer.count(content);
   }
 
   /**
@@ -464,7 +510,7 @@ export class WorkingMemoryManager {
    */
   private calculateScopeTokens(scope: MemoryScope): number {
     const messages = this.getMessagesByScope(scope);
-    return messages.reduce((sum, m) => sum + this.estimateTokens(m.content), 0);
+    return messages.reduce((sum, m) => sum + this.countTokens(m.content), 0);
   }
 
   /**
@@ -482,6 +528,6 @@ export class WorkingMemoryManager {
 /**
  * Create a new hierarchical memory manager instance.
  */
-export function createMemoryManager(logger: Logger, maxTokens?: number): WorkingMemoryManager {
-  return new WorkingMemoryManager(logger, maxTokens);
+export function createMemoryManager(logger: Logger, maxTokens?: number, tokenizer?: Tokenizer): WorkingMemoryManager {
+  return new WorkingMemoryManager(logger, maxTokens, tokenizer);
 }
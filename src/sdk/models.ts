@@ -0,0 +1,141 @@
+/**
+ * Confucius SDK - Model Registry
+ *
+ * Context window and maximum output size of known models, used to size
+ * working memory: compression starts when memory fills a fraction of what
+ * is left of the window after the system prompt, the tool docs and room
+ * for the response.
+ */
+
+import type { ModelLimits } from './types.js';
+
+/**
+ * Built-in model limits.
+ *
+ * Keys are matched like the price table: against the model name with any
+ * `provider/` prefix removed, by exact match first and then by longest
+ * prefix. Unlisted versions such as `gpt-4.5` don't match the `gpt-4` entry.
+ */
+export const DEFAULT_MODEL_LIMITS: Record<string, ModelLimits> = {
+  'claude-3.5-sonnet': { contextWindow: 200_000, maxOutputTokens: 8_192 },
+  'claude-3-5-sonnet': { contextWindow: 200_000, maxOutputTokens: 8_192 },
+  'claude-3.7-sonnet': { contextWindow: 200_000, maxOutputTokens: 64_000 },
+  'claude-3-7-sonnet': { contextWindow: 200_000, maxOutputTokens: 64_000 },
+  'claude-sonnet-4': { contextWindow: 200_000, maxOutputTokens: 64_000 },
+  'claude-3.5-haiku': { contextWindow: 200_000, maxOutputTokens: 8_192 },
+  'claude-3-5-haiku': { contextWindow: 200_000, maxOutputTokens: 8_192 },
+  'claude-3-haiku': { contextWindow: 200_000, maxOutputTokens: 4_096 },
+  'claude-3-opus': { contextWindow: 200_000, maxOutputTokens: 4_096 },
+  'claude-opus-4': { contextWindow: 200_000, maxOutputTokens: 32_000 },
+  'gpt-5': { contextWindow: 400_000, maxOutputTokens: 128_000 },
+  'gpt-4o-mini': { contextWindow: 128_000, maxOutputTokens: 16_384 },
+  'gpt-4o': { contextWindow: 128_000, maxOutputTokens: 16_384 },
+  'gpt-4.1-mini': { contextWindow: 1_047_576, maxOutputTokens: 32_768 },
+  'gpt-4.1': { contextWindow: 1_047_576, maxOutputTokens: 32_768 },
+  'gpt-4-turbo': { contextWindow: 128_000, maxOutputTokens: 4_096 },
+  'gpt-4': { contextWindow: 8_192, maxOutputTokens: 8_192 },
+  'gpt-3.5-turbo': { contextWindow: 16_385, maxOutputTokens: 4_096 },
+  'o1': { contextWindow: 200_000, maxOutputTokens: 100_000 },
+  'o3-mini': { contextWindow: 200_000, maxOutputTokens: 100_000 },
+  'o3': { contextWindow: 200_000, maxOutputTokens: 100_000 },
+  'o4-mini': { contextWindow: 200_000, maxOutputTokens: 100_000 },
+};
+
+/** Characters that may follow a key for it to match as a prefix */
+const MODEL_SUFFIX_SEPARATORS = ['-', ':'];
+
+/** Share of the usable window memory may fill before it is compressed */
+export const DEFAULT_COMPRESSION_FRACTION = 0.75;
+
+/** Threshold for models whose context window is unknown */
+export const FALLBACK_COMPRESSION_THRESHOLD = 5000;
+
+/**
+ * Find a model's entry in a table keyed by model name or name prefix.
+ *
+ * A key only matches as a prefix when the name continues with `-` or `:`,
+ * so `gpt-4` matches `gpt-4-0613` but not `gpt-4o` or `gpt-4.5`.
+ *
+ * @param model - Model name, optionally prefixed with `provider/`
+ * @param table - Table to search
+ * @returns The entry, or null if no key matches
+ */
+export function lookupModel<T>(model: string, table: Record<string, T>): T | null {
+  const name = model.toLowerCase();
+  const bare = name.includes('/') ? name.substring(name.lastIndexOf('/') + 1) : name;
+
+  for (const candidate of [name, bare]) {
+    if (candidate in table) {
+      return table[candidate];
+    }
+  }
+
+  const prefixMatch = Object.keys(table)
+    .filter(key => bare.startsWith(key) && MODEL_SUFFIX_SEPARATORS.includes(bare.charAt(key.length)))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefixMatch !== undefined ? table[prefixMatch] : null;
+}
+
+/**
+ * Look up the limits of a model.
+ *
+ * @returns Limits, or null if the model is unknown
+ */
+export function resolveModelLimits(
+  model: string,
+  table: Record<string, ModelLimits> = DEFAULT_MODEL_LIMITS
+): ModelLimits | null {
+  return lookupModel(model, table);
+}
+
+/**
+ * ContextBudget - How much of the context window working memory may use.
+ */
+export interface ContextBudget {
+  /** Compress memory once it holds more tokens than this */
+  compressionThreshold: number;
+
+  /** Tokens left for memory after the reserved prompt and response */
+  maxTokens: number;
+
+  /** Tokens set aside for the system prompt, tool docs and response */
+  reservedTokens: number;
+
+  /** Limits the budget was derived from, or null if the model is unknown */
+  limits: ModelLimits | null;
+}
+
+/**
+ * Work out the memory budget for a model.
+ *
+ * An explicit threshold always wins. Otherwise it is `fraction` of the
+ * window left after `promptTokens` (system prompt and tool docs) and room
+ * for the model's longest response; unknown models get a small fixed
+ * threshold.
+ */
+export function computeContextBudget(options: {
+  limits: ModelLimits | null;
+  promptTokens: number;
+  compressionThreshold?: number;
+  fraction?: number;
+}): ContextBudget {
+  const { limits, promptTokens } = options;
+  if (limits === null) {
+    const threshold = options.compressionThreshold ?? FALLBACK_COMPRESSION_THRESHOLD;
+    return { compressionThreshold: threshold, maxTokens: Math.floor(threshold * 1.5), reservedTokens: promptTokens, limits };
+  }
+
+  // Models like gpt-4 allow a response as long as the whole window, so
+  // never set aside more than a quarter of it
+  const responseTokens = Math.min(limits.maxOutputTokens, Math.floor(limits.contextWindow / 4));
+  const reservedTokens = promptTokens + responseTokens;
+  const maxTokens = Math.max(limits.contextWindow - reservedTokens, 0);
+  return {
+    compressionThreshold: options.compressionThreshold
+      ?? Math.floor(maxTokens * (options.fraction ?? DEFAULT_COMPRESSION_FRACTION)),
+    maxTokens,
+    reservedTokens,
+    limits,
+  };
+}
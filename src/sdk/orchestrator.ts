@@ -9,6 +9,7 @@
  * @see https://arxiv.org/abs/2512.10398v5 Section 2.2
  */
 
+import { createHash } from 'crypto';
 import type {
   RunContext,
   RunConfig,
@@ -20,16 +21,51 @@ import type {
   Logger,
   ArtifactStore,
   Note,
+  CostCategory,
+  ToolDefinition,
+  IExtension,
+  ParsedAction,
+  ToolCall,
 } from './types.js';
 import { ExtensionRegistry } from './registry.js';
-import { WorkingMemoryManager } from './memory/working-memory.js';
+import { WorkingMemoryManager, type EntryAttachment } from './memory/working-memory.js';
 import { ArchitectAgent, type ArchitectLLM } from './agents/architect.js';
 import { NoteTakerAgent, type NoteTakerLLM } from './agents/note-taker.js';
 import { MetaAgent, type MetaAgentLLM } from './agents/meta-agent.js';
 import { KnowledgeBase } from './memory/knowledge-base.js';
+import { CostTracker } from './cost.js';
+import { getTokenizer, type Tokenizer } from './tokenizer.js';
+import { LLMSummaryStrategy, OFFLOAD_NOTE_PREFIX } from './compression.js';
+import { computeContextBudget, resolveModelLimits, type ContextBudget } from './models.js';
+import { CheckpointStore } from './memory/checkpoint-store.js';
+import { LoopDetector } from './loop-detector.js';
+import { ChatSession } from './chat.js';
+import {
+  OrchestratorEventEmitter,
+  type ActionHook,
+  type OrchestratorEventName,
+  type OrchestratorEventListener,
+} from './events.js';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
+/** Default number of continuation requests for a truncated response */
+const DEFAULT_MAX_CONTINUATIONS = 2;
+
+/** Default length above which tool outputs are offloaded to artifacts */
+const DEFAULT_MAX_RESULT_LENGTH = 10000;
+
+/**
+ * Longest the NoteTaker and Meta-Agent may take. They run after the run's
+ * own signal has fired on cancellation, so they get a signal of their own.
+ */
+const SESSION_NOTES_TIMEOUT_MS = 2 * 60 * 1000;
+
+/** Sent to the model after a response is cut off at max_tokens */
+const CONTINUATION_PROMPT =
+  'Your previous response was cut off because it hit the output token limit. ' +
+  'Continue exactly where you left off. Do not repeat anything you already wrote.';
+
 /**
  * LLMProvider - Interface for language model invocation.
  * 
@@ -38,10 +74,83 @@ import * as path from 'path';
 export interface LLMProvider {
   invoke(
     systemPrompt: string,
-    messages: Message[]
+    messages: Message[],
+    options?: LLMInvokeOptions
   ): Promise<LLMResponse>;
 }
 
+/**
+ * LLMInvokeOptions - Per-call options for an LLMProvider.
+ */
+export interface LLMInvokeOptions {
+  /**
+   * Native tools to offer the model. Providers that support function
+   * calling return the model's calls in LLMResponse.toolCalls.
+   */
+  tools?: ToolDefinition[];
+  
+  /** Aborts the in-flight request when the run is cancelled */
+  signal?: AbortSignal;
+
+  /** Most tokens the response may use. Default: the provider's limit for the model */
+  maxTokens?: number;
+}
+
+/**
+ * RunOptions - Per-run options for run() and resume().
+ */
+export interface RunOptions {
+  /**
+   * Cancels the run when aborted. In-flight LLM requests and extension
+   * executions are interrupted, the run ends with terminationReason
+   * 'user_cancelled', and session notes are still written.
+   */
+  signal?: AbortSignal;
+  
+  /**
+   * Files to include with the task in the entry scope. Used by run() and
+   * ChatSession.send(); a resumed run keeps the entry it had.
+   */
+  attachments?: EntryAttachment[];
+}
+
+/**
+ * StreamCallbacks - Hooks invoked while a response streams in.
+ */
+export interface StreamCallbacks {
+  /** Called with each chunk of generated text, in order */
+  onToken: (token: string) => void;
+
+  /**
+   * Called with each native tool call as soon as its arguments are
+   * complete, in order. Providers that can't tell may call it for every
+   * tool call once the response ends, or not at all.
+   */
+  onToolCall?: (call: ToolCall) => void;
+}
+
+/**
+ * StreamingLLMProvider - An LLMProvider that can also stream its output.
+ * 
+ * invokeStream resolves with the same complete LLMResponse as invoke, but
+ * reports text through callbacks.onToken as it is generated.
+ */
+export interface StreamingLLMProvider extends LLMProvider {
+  invokeStream(
+    systemPrompt: string,
+    messages: Message[],
+    callbacks: StreamCallbacks,
+    options?: LLMInvokeOptions
+  ): Promise<LLMResponse>;
+}
+
+/**
+ * Check whether a provider supports streaming.
+ */
+export function isStreamingProvider(llm: LLMProvider): llm is StreamingLLMProvider {
+  return typeof (llm as Partial<StreamingLLMProvider>).invokeStream === 'function';
+}
+
 /**
  * OrchestratorOptions - Configuration for the orchestrator.
  */
@@ -49,6 +158,9 @@ export interface OrchestratorOptions {
   /** Language model provider */
   llm: LLMProvider;
   
+  /** Provider for the Architect, NoteTaker and Meta-Agent. Defaults to llm */
+  agentLLM?: LLMProvider;
+  
   /** Extension registry */
   registry: ExtensionRegistry;
   
@@ -66,6 +178,28 @@ export interface OrchestratorOptions {
   
   /** Working directory for session logs */
   workingDirectory?: string;
+  
+  /** Counts tokens in working memory. Default: BPE for config.model.name */
+  tokenizer?: Tokenizer;
+  
+  /**
+   * Called with each streamed token of the main loop's LLM output.
+   * Only used when config.streaming is enabled and the provider streams.
+   */
+  onToken?: (token: string) => void;
+}
+
+/**
+ * RunScope - State that belongs to one run (or chat turn): its AbortSignal,
+ * usage, and the sub-agents that bill to that usage. Kept off the
+ * orchestrator instance so concurrent runs don't overwrite each other's.
+ */
+interface RunScope {
+  signal?: AbortSignal;
+  costTracker: CostTracker;
+  architect: ArchitectAgent;
+  noteTaker: NoteTakerAgent;
+  metaAgent: MetaAgent;
 }
 
 /**
@@ -97,11 +231,15 @@ export class ConfuciusOrchestrator {
   private artifacts: ArtifactStore;
   private systemPrompt: string;
   private config: RunConfig;
-  private architect: ArchitectAgent;
-  private noteTaker: NoteTakerAgent;
-  private metaAgent: MetaAgent;
+  private agentLLM: LLMProvider;
   private knowledgeBase: KnowledgeBase;
   private workingDirectory: string;
+  private tokenizer: Tokenizer;
+  private checkpoints: CheckpointStore;
+  private onToken?: (token: string) => void;
+  private events: OrchestratorEventEmitter;
+  private actionHooks: ActionHook[] = [];
+  private defaultCompression = new LLMSummaryStrategy();
 
   constructor(options: OrchestratorOptions) {
     this.llm = options.llm;
@@ -111,44 +249,112 @@ export class ConfuciusOrchestrator {
     this.systemPrompt = options.systemPrompt;
     this.config = options.config;
     this.workingDirectory = options.workingDirectory || process.cwd();
+    this.onToken = options.onToken;
+    this.tokenizer = options.tokenizer ?? getTokenizer(this.config.model.name);
+    this.events = new OrchestratorEventEmitter(this.logger);
     
-    // Create LLM adapter for sub-agents
-    const agentLLM: ArchitectLLM & NoteTakerLLM & MetaAgentLLM = {
-      chat: async (systemPrompt: string, userMessage: string) => {
-        const response = await this.llm.invoke(systemPrompt, [
-          { role: 'user', content: userMessage }
-        ]);
-        return response.content;
-      }
-    };
-    
-    // Initialize sub-agents
-    this.architect = new ArchitectAgent(this.logger, agentLLM);
-    this.noteTaker = new NoteTakerAgent(this.logger, agentLLM);
-    this.metaAgent = new MetaAgent(this.logger, agentLLM);
+    this.agentLLM = options.agentLLM ?? options.llm;
     
-    // Initialize knowledge base
+    // Initialize knowledge base and session checkpoints
     this.knowledgeBase = new KnowledgeBase(this.logger, this.workingDirectory);
+    this.checkpoints = new CheckpointStore(this.logger, this.workingDirectory);
+  }
+
+  /**
+   * Subscribe to a lifecycle event.
+   * 
+   * @returns A function that removes the listener
+   */
+  on<K extends OrchestratorEventName>(event: K, listener: OrchestratorEventListener<K>): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Remove a lifecycle event listener.
+   */
+  off<K extends OrchestratorEventName>(event: K, listener: OrchestratorEventListener<K>): void {
+    this.events.off(event, listener);
+  }
+
+  /**
+   * Register a hook that runs before every action and may veto or
+   * rewrite it.
+   * 
+   * @returns A function that removes the hook
+   */
+  addActionHook(hook: ActionHook): () => void {
+    this.actionHooks.push(hook);
+    return () => {
+      this.actionHooks = this.actionHooks.filter(h => h !== hook);
+    };
   }
 
   /**
    * Run the orchestrator loop on a task.
    * 
    * @param initialMessage - The user's task/request
+   * @param options - Per-run options such as an AbortSignal
    * @returns Final state with results
    */
-  async run(initialMessage: string): Promise<OrchestratorState> {
+  async run(initialMessage: string, options: RunOptions = {}): Promise<OrchestratorState> {
     const sessionId = this.generateSessionId();
-    const timer = this.logger.startTimer('orchestrator:run');
+    const scope = this.createRunScope(options.signal, this.createCostTracker());
 
     this.logger.info('Starting orchestrator run', {
       sessionId,
       maxIterations: this.config.maxIterations,
       enabledExtensions: this.config.enabledExtensions,
+      budget: this.config.budget
+        ? { maxTokens: this.config.budget.maxTokens, maxCostUsd: this.config.budget.maxCostUsd }
+        : undefined,
+    });
+
+    const memoryManager = await this.createSessionMemory();
+    
+    // Entry Scope: User's task (persistent across retries)
+    memoryManager.setEntry(initialMessage, options.attachments);
+
+    return this.runLoop(scope, sessionId, initialMessage, memoryManager, 0);
+  }
+
+  /**
+   * Start a multi-turn chat session.
+   * 
+   * The session scope is built once; every task sent to the returned
+   * ChatSession runs the loop (with its own maxIterations) against the
+   * same memory, and usage accumulates across turns, so budgets apply to
+   * the whole session. Session notes are written once, by ChatSession.end().
+   */
+  async startChat(): Promise<ChatSession> {
+    const sessionId = this.generateSessionId();
+    const memoryManager = await this.createSessionMemory();
+    const costTracker = this.createCostTracker();
+
+    this.logger.info('Starting chat session', { sessionId });
+
+    return new ChatSession({
+      sessionId,
+      memory: memoryManager,
+      costTracker,
+      registry: this.registry,
+      runTurn: (task, options): Promise<OrchestratorState> =>
+        this.runLoop(this.createRunScope(options.signal, costTracker), sessionId, task, memoryManager, 0, false),
+      end: (result, signal) => this.writeSessionNotes(costTracker, sessionId, memoryManager, result, signal),
+      compress: () => this.compressContext(
+        this.createRunScope(undefined, costTracker),
+        memoryManager,
+        this.createContext(sessionId, memoryManager.getMemory(), memoryManager)
+      ),
     });
+  }
 
+  /**
+   * Steps 0-1: memory with the session scope set up, including rules
+   * learned by the Meta-Agent in earlier sessions.
+   */
+  private async createSessionMemory(): Promise<WorkingMemoryManager> {
     // Step 0: Load learned rules from Knowledge Base
-    const learnedRules = await this.knowledgeBase.loadRules();
+    const learnedRules = this.config.learnedRules !== false ? await this.knowledgeBase.loadRules() : '';
     let enhancedSystemPrompt = this.systemPrompt;
     
     if (learnedRules.trim().length > 0) {
@@ -162,28 +368,131 @@ Apply these rules when relevant to the current task.`;
     }
 
     // Step 1: Initialize hierarchical memory with three scopes
-    const memoryManager = new WorkingMemoryManager(this.logger, this.config.compressionThreshold * 1.5);
+    const memoryManager = new WorkingMemoryManager(this.logger, this.getContextBudget().maxTokens, this.tokenizer);
     
     // Session Scope: System prompt with learned rules (immutable)
     memoryManager.initializeSession(enhancedSystemPrompt);
-    
-    // Entry Scope: User's task (persistent across retries)
-    memoryManager.setEntry(initialMessage);
-    
+    return memoryManager;
+  }
+
+  /**
+   * Resume an interrupted run from its last checkpoint.
+   * 
+   * Runs that crashed, were cancelled or stopped with an error can be
+   * resumed; completed and stuck runs cannot. A run that ran out of
+   * iterations or budget can only be resumed once the limit is raised.
+   * 
+   * Memory, iteration count and usage are restored from
+   * .ralph/sessions/<sessionId>/checkpoint.json and the loop continues
+   * until maxIterations (counted across the original run and the resume).
+   * 
+   * @param sessionId - ID of the session to resume
+   * @param options - Per-run options such as an AbortSignal
+   * @returns Final state with results
+   * @throws If no checkpoint exists, the session completed or got stuck,
+   *   or it has no iterations or budget left
+   */
+  async resume(sessionId: string, options: RunOptions = {}): Promise<OrchestratorState> {
+    const checkpoint = await this.checkpoints.load(sessionId);
+    if (!checkpoint) {
+      throw new Error(`No checkpoint found for session ${sessionId}`);
+    }
+    if (checkpoint.terminationReason === 'completed') {
+      throw new Error(`Session ${sessionId} already completed and cannot be resumed`);
+    }
+    if (checkpoint.terminationReason === 'stuck') {
+      throw new Error(`Session ${sessionId} stopped because the agent was stuck; start a new run with more guidance instead`);
+    }
+    if (checkpoint.iteration >= this.config.maxIterations) {
+      throw new Error(
+        `Session ${sessionId} already used ${checkpoint.iteration} of ${this.config.maxIterations} iterations; raise maxIterations to resume it`
+      );
+    }
+
+    const costTracker = this.createCostTracker();
+    if (checkpoint.cost) {
+      costTracker.restore(checkpoint.cost);
+    }
+    const budgetViolation = costTracker.checkBudget(this.config.budget);
+    if (budgetViolation !== null) {
+      throw new Error(`Session ${sessionId} has no budget left (${budgetViolation}); raise the budget to resume it`);
+    }
+
+    this.logger.info('Resuming orchestrator run', {
+      sessionId,
+      fromIteration: checkpoint.iteration,
+      maxIterations: this.config.maxIterations,
+      previousTermination: checkpoint.terminationReason,
+    });
+
+    const memoryManager = new WorkingMemoryManager(this.logger, this.getContextBudget().maxTokens, this.tokenizer);
+    memoryManager.import(checkpoint.memory);
+
+    return this.runLoop(
+      this.createRunScope(options.signal, costTracker),
+      sessionId,
+      checkpoint.task,
+      memoryManager,
+      checkpoint.iteration
+    );
+  }
+
+  /**
+   * Steps 2-17 of the loop, shared by run() and resume(). Chat turns skip
+   * the session notes (steps 15-16), which are written when the chat ends.
+   */
+  private async runLoop(
+    scope: RunScope,
+    sessionId: string,
+    task: string,
+    memoryManager: WorkingMemoryManager,
+    startIteration: number,
+    writeNotes = true
+  ): Promise<OrchestratorState> {
+    const timer = this.logger.startTimer('orchestrator:run');
+
+    if (this.config.budget?.maxCostUsd !== undefined && !scope.costTracker.hasPricing()) {
+      this.logger.warn('No pricing known for model, cost budget cannot be enforced', {
+        model: this.config.model.name,
+      });
+    }
+
+    const budget = this.getContextBudget();
+    if (budget.limits === null && this.config.compressionThreshold === undefined) {
+      this.logger.warn('Context window unknown for model, using a fixed compression threshold', {
+        model: this.config.model.name,
+        compressionThreshold: budget.compressionThreshold,
+      });
+    } else if (budget.limits !== null) {
+      this.logger.info('Context budget', {
+        contextWindow: budget.limits.contextWindow,
+        reservedTokens: budget.reservedTokens,
+        compressionThreshold: budget.compressionThreshold,
+      });
+    }
+
     // Get legacy memory interface for compatibility
     const memory = memoryManager.getMemory();
-    const context = this.createContext(sessionId, memory, memoryManager);
+    const context = this.createContext(sessionId, memory, memoryManager, scope.signal);
 
     const state: OrchestratorState = {
-      iteration: 0,
+      sessionId,
+      iteration: startIteration,
       running: true,
     };
+    const loopDetector = new LoopDetector(this.config.loopDetection);
 
     try {
       // Step 2: Main loop
       while (state.iteration < this.config.maxIterations && state.running) {
+        if (this.isCancelled(scope)) {
+          this.markCancelled(state);
+          break;
+        }
+
         state.iteration++;
         context.iteration = state.iteration;
+        this.events.emit('iteration:start', { sessionId, iteration: state.iteration });
 
         // Log memory stats
         const stats = memoryManager.getStats();
@@ -195,8 +504,29 @@ Apply these rules when relevant to the current task.`;
         });
 
         // Check for context compression need (based on runnable scope)
-        if (memoryManager.needsCompression(this.config.compressionThreshold)) {
-          await this.compressContext(memoryManager, context);
+        if (memoryManager.needsCompression(budget.compressionThreshold)) {
+          await this.compressContext(scope, memoryManager, context);
+        }
+
+        // Stop before the next LLM call if the run is over budget
+        const budgetViolation = scope.costTracker.checkBudget(this.config.budget);
+        if (budgetViolation !== null) {
+          state.running = false;
+          state.terminationReason = 'budget_exceeded';
+          state.result = {
+            success: false,
+            output: budgetViolation,
+            error: {
+              code: 'BUDGET_EXCEEDED',
+              message: budgetViolation,
+              recoverable: false,
+            },
+          };
+          this.logger.warn('Run budget exceeded', {
+            reason: budgetViolation,
+            ...scope.costTracker.getBreakdown().total,
+          });
+          break;
         }
 
         // Apply input callbacks from extensions (use hierarchical messages)
@@ -205,8 +535,22 @@ Apply these rules when relevant to the current task.`;
           context
         );
 
-        // Step 3: Invoke LLM with system prompt + memory
-        const llmResponse = await this.invokeLLM(processedMessages);
+        // Step 3: Invoke LLM with system prompt + memory.
+        // When streaming, actions start executing as soon as their closing tag arrives.
+        const dispatcher = this.createEarlyDispatcher(context);
+        let llmResponse: LLMResponse;
+        try {
+          llmResponse = await this.invokeWithContinuation(
+            scope,
+            processedMessages,
+            dispatcher?.callbacks ?? (this.onToken ? { onToken: this.onToken } : undefined)
+          );
+        } catch (error) {
+          // Actions dispatched before the stream failed are still running
+          await dispatcher?.settle();
+          throw error;
+        }
+        this.events.emit('llm:response', { sessionId, iteration: state.iteration, response: llmResponse });
 
         // Apply output callbacks from extensions
         const processedOutput = this.registry.applyOutputCallbacks(
@@ -214,16 +558,21 @@ Apply these rules when relevant to the current task.`;
           context
         );
 
-        // Step 4: Parse LLM output into actions
-        const actions = this.registry.parseOutput(processedOutput);
+        // Step 4: Parse LLM output into actions. Native tool calls take
+        // precedence; XML tags in the text are the fallback.
+        const toolCalls = llmResponse.toolCalls ?? [];
+        const actions = toolCalls.length > 0
+          ? this.registry.parseToolCalls(toolCalls)
+          : this.registry.parseOutput(processedOutput);
 
         this.logger.debug('Parsed actions', {
           count: actions.length,
           tools: actions.map(a => a.extension.name),
+          native: toolCalls.length > 0,
         });
 
         // Check for completion (no actions emitted)
-        if (actions.length === 0) {
+        if (actions.length === 0 && toolCalls.length === 0) {
           this.logger.info('No actions parsed - agent completed');
           state.running = false;
           state.terminationReason = 'completed';
@@ -246,6 +595,7 @@ Apply these rules when relevant to the current task.`;
         memoryManager.addToRunnable({
           role: 'assistant',
           content: processedOutput,
+          toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
           timestamp: new Date(),
         });
 
@@ -254,46 +604,91 @@ Apply these rules when relevant to the current task.`;
         let shouldTerminate = false;
         let terminationMessage = '';
         const results: ExecutionResult[] = [];
+        const concurrent = new Map<number, Promise<ExecutionResult>>();
+
+        try {
+          for (const [index, { extension, action }] of actions.entries()) {
+            // Don't start new actions once cancelled; the loop exits next iteration
+            if (this.isCancelled(scope)) {
+              break;
+            }
+
+            // Step 6-7: Route and execute. Reuse executions started mid-stream
+            // or as part of a concurrent read-only batch.
+            let pending: Promise<ExecutionResult | null> | undefined =
+              dispatcher?.resultAt(index) ?? concurrent.get(index);
+            if (!pending && this.config.parallelActions !== false && this.registry.isReadOnly(extension, action)) {
+              this.startReadOnlyBatch(actions, index, context, concurrent);
+              pending = concurrent.get(index);
+            }
+            const result = await (pending ?? this.executeAction(extension, action, context));
+            if (!result) {
+              break;
+            }
+            results.push(result);
+
+            // Check for termination signal from extension (e.g., finish extension)
+            if (result.metadata?.terminate) {
+              shouldTerminate = true;
+              terminationMessage = result.metadata.finalMessage as string || result.output;
+              this.logger.info('Termination signal received', {
+                extension: extension.name,
+                reason: result.metadata.reason,
+              });
+            }
 
-        for (const { extension, action } of actions) {
-          // Step 6-7: Route and execute
-          const result = await this.registry.execute(extension, action, context);
-          results.push(result);
-
-          // Check for termination signal from extension (e.g., finish extension)
-          if (result.metadata?.terminate) {
-            shouldTerminate = true;
-            terminationMessage = result.metadata.finalMessage as string || result.output;
-            this.logger.info('Termination signal received', {
-              extension: extension.name,
-              reason: result.metadata.reason,
+            // Step 12: Add observations to runnable scope
+            memoryManager.addToRunnable({
+              role: 'tool',
+              content: `<result>${result.output}</result>`,
+              toolName: extension.name,
+              toolCallId: action.toolCallId,
+              success: result.success,
+              readOnly: this.registry.isReadOnly(extension, action),
+              timestamp: new Date(),
             });
-          }
 
-          // Step 12: Add observations to runnable scope
-          memoryManager.addToRunnable({
-            role: 'tool',
-            content: `<result>${result.output}</result>`,
-            toolName: extension.name,
-            timestamp: new Date(),
-          });
+            // Step 8-10: Check continuation signal
+            if (extension.signalsContinuation !== false) {
+              shouldContinue = true;
+            }
 
-          // Step 8-10: Check continuation signal
-          if (extension.signalsContinuation !== false) {
-            shouldContinue = true;
-          }
+            // Handle artifacts
+            if (result.artifacts) {
+              for (const artifact of result.artifacts) {
+                await this.artifacts.save({
+                  ...artifact,
+                  sessionId: artifact.sessionId ?? sessionId,
+                  extension: artifact.extension ?? extension.name,
+                  iteration: artifact.iteration ?? state.iteration,
+                });
+              }
+            }
 
-          // Handle artifacts
-          if (result.artifacts) {
-            for (const artifact of result.artifacts) {
-              await this.artifacts.save(artifact);
+            // If termination was signaled, stop executing more actions
+            if (shouldTerminate) {
+              break;
             }
           }
+        } finally {
+          // Wait for actions the loop left behind (after a break or an
+          // error) so none keeps running or rejects unobserved
+          await Promise.allSettled(concurrent.values());
+          await dispatcher?.settle();
+        }
 
-          // If termination was signaled, stop executing more actions
-          if (shouldTerminate) {
-            break;
-          }
+        // Every native tool call needs a result, including ones that failed
+        // to parse or were skipped after termination
+        const answered = new Set(actions.slice(0, results.length).map(a => a.action.toolCallId));
+        for (const call of toolCalls.filter(c => !answered.has(c.id))) {
+          memoryManager.addToRunnable({
+            role: 'tool',
+            content: `<result>Tool call "${call.name}" was not executed: unknown tool, invalid arguments, or skipped after termination.</result>`,
+            toolName: call.name,
+            toolCallId: call.id,
+            success: false,
+            timestamp: new Date(),
+          });
         }
 
         // Handle termination signal
@@ -308,6 +703,44 @@ Apply these rules when relevant to the current task.`;
           break;
         }
 
+        // Detect the agent repeating itself and escalate
+        const loop = loopDetector.record(
+          results.map((result, i) => ({ ...actions[i], result }))
+        );
+        if (loop.action === 'stuck') {
+          state.running = false;
+          state.terminationReason = 'stuck';
+          state.result = {
+            success: false,
+            output: `Agent is stuck: ${loop.description}`,
+            error: {
+              code: 'STUCK_LOOP',
+              message: loop.description,
+              recoverable: false,
+              suggestion: 'Rephrase the task or give the agent more information',
+            },
+          };
+          this.logger.warn('Agent is stuck, terminating', { repeats: loop.repeats, loop: loop.description });
+          break;
+        }
+        if (loop.action === 'replan') {
+          this.logger.warn('Agent is looping, asking Architect to replan', { repeats: loop.repeats });
+          const plan = await scope.architect.replan(task, memoryManager.getRunnableMessages(), loop.description);
+          memoryManager.addToRunnable({
+            role: 'user',
+            content: `[ARCHITECT REPLAN]: You are repeating yourself (${loop.description}). Follow this new plan instead:\n${plan}`,
+            timestamp: new Date(),
+          });
+        } else if (loop.action === 'warn') {
+          this.logger.warn('Agent is repeating actions', { repeats: loop.repeats, loop: loop.description });
+          memoryManager.addToRunnable({
+            role: 'user',
+            content: `You are repeating yourself: ${loop.description}. Doing the same thing again will not give a different result. ` +
+              'Try a different approach, or use finish if the task is done or cannot be completed.',
+            timestamp: new Date(),
+          });
+        }
+
         // If no extension signaled continuation and all succeeded, check completion
         if (!shouldContinue) {
           const allSucceeded = results.every(r => r.success);
@@ -316,6 +749,8 @@ Apply these rules when relevant to the current task.`;
             // Continue to let agent decide if more work needed
           }
         }
+
+        await this.saveCheckpoint(scope, sessionId, task, memoryManager, state);
       }
 
       // Check if we hit max iterations
@@ -328,37 +763,86 @@ Apply these rules when relevant to the current task.`;
       }
 
     } catch (error) {
-      state.running = false;
-      state.terminationReason = 'error';
-      state.result = {
-        success: false,
-        output: `Orchestrator error: ${error instanceof Error ? error.message : String(error)}`,
-        error: {
-          code: 'ORCHESTRATOR_ERROR',
-          message: error instanceof Error ? error.message : String(error),
+      if (this.isCancelled(scope)) {
+        // Aborting in-flight requests surfaces as an error; report it as a cancellation
+        this.markCancelled(state);
+      } else {
+        state.running = false;
+        state.terminationReason = 'error';
+        state.result = {
+          success: false,
+          output: `Orchestrator error: ${error instanceof Error ? error.message : String(error)}`,
+          error: {
+            code: 'ORCHESTRATOR_ERROR',
+            message: error instanceof Error ? error.message : String(error),
+            stack: error instanceof Error ? error.stack : undefined,
+            recoverable: false,
+          },
+        };
+        this.logger.error('Orchestrator error', {
+          error: error instanceof Error ? error.message : String(error),
           stack: error instanceof Error ? error.stack : undefined,
-          recoverable: false,
-        },
-      };
-      this.logger.error('Orchestrator error', {
-        error: error instanceof Error ? error.message : String(error),
-        stack: error instanceof Error ? error.stack : undefined,
-      });
+        });
+      }
     } finally {
       timer();
     }
 
+    await this.saveCheckpoint(scope, sessionId, task, memoryManager, state);
+    this.events.emit('terminate', {
+      sessionId,
+      iteration: state.iteration,
+      reason: state.terminationReason,
+      result: state.result,
+    });
+
+    if (writeNotes) {
+      await this.writeSessionNotes(scope.costTracker, sessionId, memoryManager, state.result);
+    }
+
+    // Step 17: Return final output and artifacts
+    state.cost = scope.costTracker.getBreakdown();
+    this.logger.info('Orchestrator run complete', {
+      sessionId,
+      iterations: state.iteration,
+      terminationReason: state.terminationReason,
+      success: state.result?.success,
+      totalTokens: state.cost.total.totalTokens,
+      costUsd: state.cost.total.costUsd,
+    });
+
+    return state;
+  }
+
+  /**
+   * Steps 15-16: the NoteTaker summarizes the session and the Meta-Agent
+   * turns the summary into a rule for the Knowledge Base. Failures are
+   * logged, not thrown.
+   *
+   * Not cancelled with the run: the calls stop when `signal` fires, or
+   * after SESSION_NOTES_TIMEOUT_MS without one.
+   */
+  private async writeSessionNotes(
+    costTracker: CostTracker,
+    sessionId: string,
+    memoryManager: WorkingMemoryManager,
+    result: ExecutionResult | undefined,
+    signal: AbortSignal = AbortSignal.timeout(SESSION_NOTES_TIMEOUT_MS)
+  ): Promise<void> {
+    const scope = this.createRunScope(signal, costTracker);
+
     // Step 15: Generate session summary with NoteTaker
     let sessionSummary = '';
     try {
       const allMessages = memoryManager.getMessages();
-      const finalResult: ExecutionResult = state.result || {
+      const finalResult: ExecutionResult = result || {
         success: false,
         output: 'No result available',
       };
       
-      sessionSummary = await this.noteTaker.generateSessionSummary(allMessages, finalResult);
-      await this.writeSessionSummary(sessionId, sessionSummary);
+      sessionSummary = await scope.noteTaker.generateSessionSummary(allMessages, finalResult);
+      const notesPath = await this.writeSessionSummary(sessionId, sessionSummary);
+      this.events.emit('notes:written', { sessionId, path: notesPath });
     } catch (summaryError) {
       this.logger.error('Failed to generate session summary', {
         error: summaryError instanceof Error ? summaryError.message : String(summaryError),
@@ -368,8 +852,10 @@ Apply these rules when relevant to the current task.`;
     // Step 16: Meta-Agent extracts lesson and updates Knowledge Base
     if (sessionSummary.length > 0) {
       try {
-        const lesson = await this.metaAgent.extractLesson(sessionSummary);
-        if (lesson && lesson.trim().length > 0) {
+        const lesson = await scope.metaAgent.extractLesson(sessionSummary);
+        if (lesson && lesson.trim().length > 0 && this.config.learnedRules === false) {
+          this.logger.info(`[Meta-Agent] Learned rule not saved (learned rules are off): ${lesson}`);
+        } else if (lesson && lesson.trim().length > 0) {
           await this.knowledgeBase.addRule(lesson);
           this.logger.info(`[Meta-Agent] Learned new rule: ${lesson}`);
         }
@@ -379,22 +865,102 @@ Apply these rules when relevant to the current task.`;
         });
       }
     }
+  }
 
-    // Step 17: Return final output and artifacts
-    this.logger.info('Orchestrator run complete', {
-      sessionId,
-      iterations: state.iteration,
-      terminationReason: state.terminationReason,
-      success: state.result?.success,
+  /**
+   * A cost tracker for a new run or chat session.
+   */
+  private createCostTracker(): CostTracker {
+    return new CostTracker(this.config.model.name, this.config.budget?.pricing);
+  }
+
+  /**
+   * Set up the state for one run: sub-agents that pass on its signal, so
+   * cancelling also stops them, and bill to its cost tracker, each under
+   * its own category.
+   */
+  private createRunScope(signal: AbortSignal | undefined, costTracker: CostTracker): RunScope {
+    const agentLLM = (category: CostCategory): ArchitectLLM & NoteTakerLLM & MetaAgentLLM => ({
+      chat: async (systemPrompt: string, userMessage: string): Promise<string> => {
+        const response = await this.agentLLM.invoke(systemPrompt, [
+          { role: 'user', content: userMessage }
+        ], { signal });
+        costTracker.record(category, response.usage);
+        return response.content;
+      }
     });
 
-    return state;
+    return {
+      signal,
+      costTracker,
+      architect: new ArchitectAgent(this.logger, agentLLM('architect')),
+      noteTaker: new NoteTakerAgent(this.logger, agentLLM('noteTaker')),
+      metaAgent: new MetaAgent(this.logger, agentLLM('metaAgent')),
+    };
+  }
+
+  /**
+   * Whether the run's AbortSignal has fired.
+   */
+  private isCancelled(scope: RunScope): boolean {
+    return scope.signal?.aborted === true;
+  }
+
+  /**
+   * Stop the loop because the run's AbortSignal fired.
+   */
+  private markCancelled(state: OrchestratorState): void {
+    state.running = false;
+    state.terminationReason = 'user_cancelled';
+    state.result = {
+      success: false,
+      output: 'Run cancelled by user',
+      error: {
+        code: 'USER_CANCELLED',
+        message: 'Run cancelled by user',
+        recoverable: true,
+        suggestion: 'Resume the session to continue',
+      },
+    };
+    this.logger.warn('Run cancelled', { iteration: state.iteration });
+  }
+
+  /**
+   * Persist the current progress so the run can be resumed. Failures are
+   * logged, never thrown: a run shouldn't fail because its checkpoint
+   * couldn't be written.
+   */
+  private async saveCheckpoint(
+    scope: RunScope,
+    sessionId: string,
+    task: string,
+    memoryManager: WorkingMemoryManager,
+    state: OrchestratorState
+  ): Promise<void> {
+    if (this.config.checkpoints === false) {
+      return;
+    }
+    try {
+      await this.checkpoints.save({
+        sessionId,
+        task,
+        iteration: state.iteration,
+        terminationReason: state.terminationReason,
+        memory: memoryManager.export(),
+        cost: scope.costTracker.getBreakdown(),
+      });
+    } catch (error) {
+      this.logger.error('Failed to save checkpoint', {
+        sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
   }
 
   /**
    * Write session summary to .ralph/sessions/ directory.
    */
-  private async writeSessionSummary(sessionId: string, summary: string): Promise<void> {
+  private async writeSessionSummary(sessionId: string, summary: string): Promise<string> {
     const sessionsDir = path.join(this.workingDirectory, '.ralph', 'sessions');
     
     // Ensure directory exists
@@ -411,6 +977,8 @@ Apply these rules when relevant to the current task.`;
       path: filepath,
       sessionId,
     });
+
+    return filepath;
   }
 
   /**
@@ -420,7 +988,7 @@ Apply these rules when relevant to the current task.`;
     return {
       messages: [],
       tokenCount: 0,
-      maxTokens: this.config.compressionThreshold * 1.5,
+      maxTokens: this.getContextBudget().maxTokens,
       notes: new Map(),
     };
   }
@@ -428,7 +996,12 @@ Apply these rules when relevant to the current task.`;
   /**
    * Create runtime context for extensions.
    */
-  private createContext(sessionId: string, memory: WorkingMemory, memoryManager?: WorkingMemoryManager): RunContext {
+  private createContext(
+    sessionId: string,
+    memory: WorkingMemory,
+    memoryManager?: WorkingMemoryManager,
+    signal?: AbortSignal
+  ): RunContext {
     return {
       sessionId,
       iteration: 0,
@@ -437,6 +1010,7 @@ Apply these rules when relevant to the current task.`;
       artifacts: this.artifacts,
       logger: this.logger,
       config: this.config,
+      signal,
 
       addMessage: (message: Message): void => {
         if (memoryManager) {
@@ -482,21 +1056,64 @@ Apply these rules when relevant to the current task.`;
     };
   }
 
+  /**
+   * Full system prompt for the main loop: the prompt plus tool documentation.
+   */
+  private buildSystemPrompt(): string {
+    return [
+      this.systemPrompt,
+      '',
+      this.registry.generateToolDocs(),
+    ].join('\n');
+  }
+
+  /**
+   * How much of the model's context window memory may use: the window
+   * less the system prompt, tool docs and tool definitions sent with every
+   * call, and room for the response.
+   */
+  private getContextBudget(): ContextBudget {
+    const { model } = this.config;
+    const known = resolveModelLimits(model.name);
+    const contextWindow = model.contextWindow ?? known?.contextWindow;
+    const limits = contextWindow !== undefined
+      ? {
+          contextWindow,
+          maxOutputTokens: model.maxOutputTokens ?? known?.maxOutputTokens ?? Math.floor(contextWindow / 4),
+        }
+      : null;
+
+    const toolDefinitions = model.supportsToolUse ? JSON.stringify(this.registry.getToolDefinitions()) : '';
+    return computeContextBudget({
+      limits,
+      promptTokens: this.tokenizer.count(this.buildSystemPrompt()) + this.tokenizer.count(toolDefinitions),
+      compressionThreshold: this.config.compressionThreshold,
+      fraction: this.config.compressionFraction,
+    });
+  }
+
   /**
    * Invoke the LLM with current memory state.
    */
-  private async invokeLLM(messages: Message[]): Promise<LLMResponse> {
+  private async invokeLLM(
+    scope: RunScope,
+    messages: Message[],
+    callbacks?: StreamCallbacks
+  ): Promise<LLMResponse> {
     const timer = this.logger.startTimer('llm:invoke');
     
     try {
-      // Build full system prompt with tool documentation
-      const fullSystemPrompt = [
-        this.systemPrompt,
-        '',
-        this.registry.generateToolDocs(),
-      ].join('\n');
-
-      const response = await this.llm.invoke(fullSystemPrompt, messages);
+      const fullSystemPrompt = this.buildSystemPrompt();
+      const options: LLMInvokeOptions = {
+        tools: this.config.model.supportsToolUse ? this.registry.getToolDefinitions() : undefined,
+        signal: scope.signal,
+        maxTokens: this.config.model.maxOutputTokens,
+      };
+
+      const response = callbacks && this.config.streaming === true && isStreamingProvider(this.llm)
+        ? await this.llm.invokeStream(fullSystemPrompt, messages, callbacks, options)
+        : await this.llm.invoke(fullSystemPrompt, messages, options);
+      scope.costTracker.record('main', response.usage);
       
       this.logger.debug('LLM response received', {
         promptTokens: response.usage.promptTokens,
@@ -510,62 +1127,261 @@ Apply these rules when relevant to the current task.`;
     }
   }
 
+  /**
+   * Start the run of consecutive read-only actions beginning at `start`.
+   * 
+   * All of them execute concurrently; their promises are stored by index
+   * so the caller can consume results in the original order. The batch
+   * stops at the first action that may have side effects.
+   */
+  private startReadOnlyBatch(
+    actions: Array<{ extension: IExtension; action: ParsedAction }>,
+    start: number,
+    context: RunContext,
+    concurrent: Map<number, Promise<ExecutionResult>>
+  ): void {
+    let end = start;
+    while (end < actions.length && this.registry.isReadOnly(actions[end].extension, actions[end].action)) {
+      const { extension, action } = actions[end];
+      concurrent.set(end, this.executeAction(extension, action, context));
+      end++;
+    }
+
+    if (end - start > 1) {
+      this.logger.debug('Executing read-only actions concurrently', {
+        count: end - start,
+        tools: actions.slice(start, end).map(a => a.extension.name),
+      });
+    }
+  }
+
+  /**
+   * Execute one action, letting action hooks veto or rewrite it first.
+   * Every execution path (sequential, concurrent and mid-stream) goes
+   * through here so listeners see each action exactly once.
+   */
+  private async executeAction(
+    extension: IExtension,
+    action: ParsedAction,
+    context: RunContext
+  ): Promise<ExecutionResult> {
+    const base = { sessionId: context.sessionId, iteration: context.iteration, extension: extension.name };
+    this.events.emit('action:parsed', { ...base, action });
+
+    let current = action;
+    let result: ExecutionResult | null = null;
+    for (const hook of this.actionHooks) {
+      const decision = await hook(extension, current, context);
+      if (!decision || decision.type === 'allow') {
+        continue;
+      }
+      if (decision.type === 'veto') {
+        this.logger.info('Action vetoed by hook', { extension: extension.name, reason: decision.reason });
+        result = {
+          success: false,
+          output: `Action was not executed: ${decision.reason}`,
+          error: {
+            code: 'ACTION_VETOED',
+            message: decision.reason,
+            recoverable: true,
+            suggestion: 'Choose a different approach',
+          },
+        };
+        break;
+      }
+      this.logger.debug('Action rewritten by hook', { extension: extension.name });
+      // Keep the native tool call id so the result still pairs with the call
+      current = { ...decision.action, toolCallId: action.toolCallId };
+    }
+
+    result ??= await this.registry.execute(extension, current, context);
+    result = await this.offloadOutput(extension, result, context);
+    this.events.emit('action:result', { ...base, action: current, result });
+    return result;
+  }
+
+  /**
+   * Move an output too long for working memory into an artifact, leaving
+   * the head and tail plus directions for reading the rest with
+   * <artifact_read> when it is registered. If the artifact can't be saved,
+   * the output is just truncated. artifact_read's own results are never
+   * offloaded, or reading an artifact could keep producing new ones.
+   */
+  private async offloadOutput(
+    extension: IExtension,
+    result: ExecutionResult,
+    context: RunContext
+  ): Promise<ExecutionResult> {
+    const maxLength = this.config.maxResultLength ?? DEFAULT_MAX_RESULT_LENGTH;
+    const output = result.output;
+    if (output.length <= maxLength || extension.name === 'artifact_read') {
+      return result;
+    }
+
+    // Keep whole lines from each end, about 40% of the limit apiece
+    const budget = Math.floor(maxLength * 0.4);
+    const headEnd = output.lastIndexOf('\n', budget);
+    const head = output.substring(0, headEnd > 0 ? headEnd : budget);
+    const tailStart = output.indexOf('\n', output.length - budget);
+    const tail = output.substring(tailStart >= 0 && tailStart < output.length - 1 ? tailStart + 1 : output.length - budget);
+    const lineCount = output.replace(/\n$/, '').split('\n').length;
+    const omittedLines = lineCount - head.split('\n').length - tail.split('\n').length;
+
+    // The id is derived from the content, so a replayed run sees the same
+    // message as the recorded one
+    let id: string;
+    try {
+      id = await this.artifacts.save({
+        id: `out_${createHash('sha256').update(output).digest('hex').substring(0, 12)}`,
+        name: `${extension.name}-output-${context.iteration}.txt`,
+        mimeType: 'text/plain',
+        content: output,
+        sessionId: context.sessionId,
+        extension: extension.name,
+        iteration: context.iteration,
+      });
+    } catch (error) {
+      this.logger.warn('Failed to offload tool output, truncating it instead', {
+        extension: extension.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        ...result,
+        output: `${head}\n... [${output.length - head.length - tail.length} characters truncated]\n${tail}`,
+      };
+    }
+
+    this.logger.info('Offloaded tool output to artifact', { extension: extension.name, artifactId: id, length: output.length });
+    const directions = this.registry.has('artifact_read')
+      ? `. Read more with <artifact_read id="${id}" range="1-200"/> or search it with <artifact_read id="${id}" grep="pattern"/>`
+      : '';
+    return {
+      ...result,
+      output: `${head}\n... [${omittedLines} lines omitted]\n${tail}\n\n` +
+        `${OFFLOAD_NOTE_PREFIX} ${id}: ${lineCount} lines, ${output.length} characters${directions}]`,
+    };
+  }
+
+  /**
+   * Create a dispatcher that executes actions while the response streams.
+   * 
+   * With native tool calling on, tool calls are dispatched as the provider
+   * reports them complete (see StreamCallbacks.onToolCall) and the text is
+   * not scanned for tags. Returns null when streaming is off, the provider
+   * cannot stream, or an extension rewrites output via onLLMOutput (the
+   * parsed actions could then differ from what was dispatched).
+   */
+  private createEarlyDispatcher(context: RunContext): EarlyActionDispatcher | null {
+    if (
+      this.config.streaming !== true ||
+      !isStreamingProvider(this.llm) ||
+      this.registry.hasOutputCallbacks()
+    ) {
+      return null;
+    }
+    return new EarlyActionDispatcher(
+      this.registry,
+      (extension, action) => this.executeAction(extension, action, context),
+      this.logger,
+      this.config.model.supportsToolUse,
+      this.onToken
+    );
+  }
+
+  /**
+   * Invoke the LLM and, if the response was cut off at max_tokens, ask the
+   * model to carry on from where it stopped. The partial outputs are stitched
+   * together and their usage summed, so callers see a single response.
+   */
+  private async invokeWithContinuation(
+    scope: RunScope,
+    messages: Message[],
+    callbacks?: StreamCallbacks
+  ): Promise<LLMResponse> {
+    const maxContinuations = this.config.maxContinuations ?? DEFAULT_MAX_CONTINUATIONS;
+    let response = await this.invokeLLM(scope, messages, callbacks);
+    let content = response.content;
+    const usage = { ...response.usage };
+    const toolCalls = [...(response.toolCalls ?? [])];
+    let continuations = 0;
+
+    while (response.stopReason === 'max_tokens' && continuations < maxContinuations) {
+      continuations++;
+      this.logger.warn('LLM response truncated at max_tokens, requesting continuation', {
+        continuation: continuations,
+        maxContinuations,
+        contentLength: content.length,
+      });
+
+      response = await this.invokeLLM(scope, [
+        ...messages,
+        { role: 'assistant', content },
+        { role: 'user', content: CONTINUATION_PROMPT },
+      ], callbacks);
+      content += response.content;
+      toolCalls.push(...(response.toolCalls ?? []));
+      usage.promptTokens += response.usage.promptTokens;
+      usage.completionTokens += response.usage.completionTokens;
+      usage.totalTokens += response.usage.totalTokens;
+    }
+
+    return {
+      content,
+      usage,
+      stopReason: response.stopReason,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    };
+  }
+
   /**
    * Compress context when approaching token limits.
    * 
-   * Uses the Architect agent to intelligently summarize the runnable scope
-   * while preserving session and entry scopes intact.
+   * Shrinks the runnable scope with the configured CompressionStrategy
+   * (by default the Architect summarizes older messages) while preserving
+   * session and entry scopes intact.
    */
   private async compressContext(
+    scope: RunScope,
     memoryManager: WorkingMemoryManager,
-    _context: RunContext
+    context: RunContext
   ): Promise<void> {
+    const strategy = this.config.compressionStrategy ?? this.defaultCompression;
     const stats = memoryManager.getStats();
     this.logger.info('Compressing context', {
+      strategy: strategy.name,
       sessionTokens: stats.scopes.session.tokens,
       entryTokens: stats.scopes.entry.tokens,
       runnableTokens: stats.scopes.runnable.tokens,
-      threshold: this.config.compressionThreshold,
+      threshold: this.getContextBudget().compressionThreshold,
     });
 
-    // Get runnable messages for summarization
-    const runnableMessages = memoryManager.getRunnableMessages();
-    
-    if (runnableMessages.length <= 2) {
-      this.logger.info('Too few runnable messages to compress, skipping');
-      return;
-    }
-
-    // Keep recent messages, summarize older ones
-    const keepRecent = 4;
-    const toSummarize = runnableMessages.slice(0, -keepRecent);
-    const toKeep = runnableMessages.slice(-keepRecent);
-
-    if (toSummarize.length === 0) {
-      this.logger.info('Nothing to summarize, skipping compression');
+    const result = await strategy.compress(memoryManager.getRunnableMessages(), {
+      tokenizer: this.tokenizer,
+      summarize: (messages) => scope.architect.summarize(messages),
+    });
+    if (result === null) {
+      this.logger.info('Nothing to compress, skipping', { strategy: strategy.name });
       return;
     }
 
-    // Use Architect to summarize the older messages
-    const summary = await this.architect.summarize(toSummarize);
+    memoryManager.compressRunnable(result.messages);
 
-    // Replace runnable scope with summary + recent messages
-    const summaryMessage: Message = {
-      role: 'system',
-      content: `[PREVIOUS CONTEXT SUMMARY]:\n${summary}`,
-      timestamp: new Date(),
-      scope: 'runnable',
-    };
-
-    memoryManager.compressRunnable([summaryMessage, ...toKeep]);
-
-    const newStats = memoryManager.getStats();
-    this.logger.info('Context compressed via Architect', {
-      summarizedMessages: toSummarize.length,
-      keptMessages: toKeep.length + 1,
-      oldRunnableTokens: stats.scopes.runnable.tokens,
-      newRunnableTokens: newStats.scopes.runnable.tokens,
-      tokensSaved: stats.scopes.runnable.tokens - newStats.scopes.runnable.tokens,
+    this.logger.info('Context compressed', {
+      strategy: strategy.name,
+      compressedMessages: result.compressedMessages,
+      messagesAfter: result.messages.length,
+      oldRunnableTokens: result.tokensBefore,
+      newRunnableTokens: result.tokensAfter,
+      tokensSaved: result.tokensSaved,
+    });
+    this.events.emit('compression', {
+      sessionId: context.sessionId,
+      iteration: context.iteration,
+      strategy: strategy.name,
+      tokensBefore: result.tokensBefore,
+      tokensAfter: result.tokensAfter,
+      tokensSaved: result.tokensSaved,
+      summarizedMessages: result.compressedMessages,
     });
   }
 
@@ -579,6 +1395,102 @@ Apply these rules when relevant to the current task.`;
   }
 }
 
+/**
+ * EarlyActionDispatcher - Starts executing actions mid-stream.
+ * 
+ * Tokens are accumulated into a buffer that is rescanned from the last
+ * closed tag; with native tool calling, tool calls are dispatched as the
+ * provider completes them instead. Each action is chained onto the
+ * previous one, so actions still run one at a time and in output order.
+ * Once an action signals termination, later actions are skipped (resolve
+ * to null).
+ */
+class EarlyActionDispatcher {
+  private buffer = '';
+  private offset = 0;
+  private stopped = false;
+  private chain: Promise<unknown> = Promise.resolve();
+  private pending: Array<Promise<ExecutionResult | null>> = [];
+
+  /** Callbacks to stream the LLM response into */
+  readonly callbacks: StreamCallbacks = {
+    onToken: (token) => this.push(token),
+    onToolCall: (call) => this.pushToolCall(call),
+  };
+
+  constructor(
+    private registry: ExtensionRegistry,
+    private execute: (extension: IExtension, action: ParsedAction) => Promise<ExecutionResult>,
+    private logger: Logger,
+    private native: boolean,
+    private onToken?: (token: string) => void
+  ) {}
+
+  /**
+   * Feed the next streamed token.
+   */
+  push(token: string): void {
+    this.onToken?.(token);
+    if (this.native) {
+      return;
+    }
+    this.buffer += token;
+
+    const { actions, offset } = this.registry.parseCompletedActions(this.buffer, this.offset);
+    this.offset = offset;
+    for (const { extension, action } of actions) {
+      this.dispatch(extension, action);
+    }
+  }
+
+  /**
+   * Feed a native tool call whose arguments are complete. Calls are parsed
+   * like the complete response's, so positions line up with its actions.
+   */
+  pushToolCall(call: ToolCall): void {
+    if (!this.native) {
+      return;
+    }
+    for (const { extension, action } of this.registry.parseToolCalls([call])) {
+      this.dispatch(extension, action);
+    }
+  }
+
+  private dispatch(extension: IExtension, action: ParsedAction): void {
+    this.logger.debug('Dispatching action mid-stream', { extension: extension.name });
+    const run = this.chain.then(async (): Promise<ExecutionResult | null> => {
+      if (this.stopped) {
+        return null;
+      }
+      const result = await this.execute(extension, action);
+      if (result.metadata?.terminate === true) {
+        this.stopped = true;
+      }
+      return result;
+    });
+    // A failed action is reported through its own promise; later actions
+    // still run after it
+    this.chain = run.catch(() => undefined);
+    this.pending.push(run);
+  }
+
+  /**
+   * Wait for every dispatched action to finish, ignoring failures. Called
+   * before the dispatcher is dropped so no execution is left running or
+   * rejects unobserved.
+   */
+  async settle(): Promise<void> {
+    await Promise.allSettled(this.pending);
+  }
+
+  /**
+   * Result of the action at the given position, if it was dispatched early.
+   */
+  resultAt(index: number): Promise<ExecutionResult | null> | undefined {
+    return this.pending[index];
+  }
+}
+
 /**
  * Create a new orchestrator instance.
  */
@@ -0,0 +1,30 @@
+/**
+ * Confucius SDK - LLM Providers
+ * 
+ * LLMProvider implementations that don't call a model directly:
+ * recording, replaying and scripting responses for tests.
+ */
+
+export {
+  RecordingLLMProvider,
+  ReplayLLMProvider,
+  ReplayMismatchError,
+  createRecordingProvider,
+  createReplayProvider,
+  loadCassette,
+  normalizeVolatileText,
+} from './record-replay.js';
+export type {
+  Cassette,
+  CassetteInteraction,
+  CassetteRequest,
+  ReplayLLMProviderOptions,
+} from './record-replay.js';
+
+export { MockLLMProvider, createMockProvider } from './mock.js';
+export type {
+  MockReply,
+  MockResponder,
+  MockCall,
+  MockLLMProviderOptions,
+} from './mock.js';
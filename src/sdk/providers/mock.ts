@@ -0,0 +1,152 @@
+/**
+ * Confucius SDK - Mock LLM Provider
+ *
+ * Serves canned responses for tests: either a script consumed in order, or
+ * a function that decides the reply from the incoming messages. Every
+ * request is kept so tests can assert on what the model was shown.
+ *
+ * @example
+ * const llm = new MockLLMProvider([
+ *   '<bash>ls</bash>',
+ *   '<finish>Listed the files</finish>',
+ * ]);
+ *
+ * @example
+ * const llm = new MockLLMProvider((messages) =>
+ *   messages.some(m => m.content.includes('error'))
+ *     ? '<finish>Gave up</finish>'
+ *     : '<bash>npm test</bash>'
+ * );
+ */
+
+import type { Message, LLMResponse } from '../types.js';
+import type { LLMInvokeOptions, StreamingLLMProvider, StreamCallbacks } from '../orchestrator.js';
+
+/**
+ * MockReply - A canned reply: plain text, or a partial response for
+ * native tool calls, usage or a specific stop reason.
+ */
+export type MockReply = string | (Partial<LLMResponse> & { content: string });
+
+/**
+ * MockResponder - Computes the reply from the request.
+ *
+ * @param messages - Messages sent to the model
+ * @param context - System prompt, options and the 0-based call index
+ */
+export type MockResponder = (
+  messages: Message[],
+  context: { systemPrompt: string; options?: LLMInvokeOptions; call: number }
+) => MockReply | Promise<MockReply>;
+
+/**
+ * MockCall - A request the provider received.
+ */
+export interface MockCall {
+  systemPrompt: string;
+  messages: Message[];
+  options?: LLMInvokeOptions;
+  response: LLMResponse;
+}
+
+/**
+ * MockLLMProviderOptions - Behaviour of a MockLLMProvider.
+ */
+export interface MockLLMProviderOptions {
+  /**
+   * Reply once a script runs out. By default running out throws, so a
+   * test fails if the agent makes more calls than expected.
+   */
+  fallback?: MockReply;
+
+  /** Characters per token when streaming. Default: 8 */
+  chunkSize?: number;
+}
+
+/**
+ * MockLLMProvider - Deterministic LLMProvider for tests.
+ */
+export class MockLLMProvider implements StreamingLLMProvider {
+  /** Every request received, in order */
+  readonly calls: MockCall[] = [];
+
+  private responder: MockResponder;
+  private chunkSize: number;
+
+  constructor(script: MockReply[] | MockResponder, options: MockLLMProviderOptions = {}) {
+    this.chunkSize = options.chunkSize ?? 8;
+    if (typeof script === 'function') {
+      this.responder = script;
+    } else {
+      const replies = [...script];
+      this.responder = (_messages, { call }): MockReply => {
+        const reply = replies[call] ?? options.fallback;
+        if (reply === undefined) {
+          throw new Error(`MockLLMProvider script exhausted: call #${call + 1} but only ${replies.length} replies were scripted`);
+        }
+        return reply;
+      };
+    }
+  }
+
+  async invoke(systemPrompt: string, messages: Message[], options?: LLMInvokeOptions): Promise<LLMResponse> {
+    const call = this.calls.length;
+    const reply = await this.responder(messages, { systemPrompt, options, call });
+    const response = toResponse(systemPrompt, messages, reply);
+    this.calls.push({ systemPrompt, messages: [...messages], options, response });
+    return response;
+  }
+
+  /**
+   * Streams the reply in fixed-size chunks, so streaming code paths (such
+   * as mid-stream action dispatch) see the closing tags arrive piecemeal.
+   */
+  async invokeStream(
+    systemPrompt: string,
+    messages: Message[],
+    callbacks: StreamCallbacks,
+    options?: LLMInvokeOptions
+  ): Promise<LLMResponse> {
+    const response = await this.invoke(systemPrompt, messages, options);
+    for (let i = 0; i < response.content.length; i += this.chunkSize) {
+      callbacks.onToken(response.content.substring(i, i + this.chunkSize));
+    }
+    for (const call of response.toolCalls ?? []) {
+      callbacks.onToolCall?.(call);
+    }
+    return response;
+  }
+
+  /**
+   * Number of requests received so far.
+   */
+  get callCount(): number {
+    return this.calls.length;
+  }
+}
+
+/**
+ * Fill in a full response, estimating usage at ~4 characters per token.
+ */
+function toResponse(systemPrompt: string, messages: Message[], reply: MockReply): LLMResponse {
+  const partial = typeof reply === 'string' ? { content: reply } : reply;
+  const promptChars = systemPrompt.length + messages.reduce((sum, m) => sum + m.content.length, 0);
+  const promptTokens = Math.ceil(promptChars / 4);
+  const completionTokens = Math.ceil(partial.content.length / 4);
+
+  return {
+    usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+    stopReason: partial.toolCalls !== undefined && partial.toolCalls.length > 0 ? 'tool_use' : 'end_turn',
+    ...partial,
+  };
+}
+
+/**
+ * Create a new mock provider.
+ */
+export function createMockProvider(
+  script: MockReply[] | MockResponder,
+  options?: MockLLMProviderOptions
+): MockLLMProvider {
+  return new MockLLMProvider(script, options);
+}
@@ -0,0 +1,378 @@
+/**
+ * Confucius SDK - Record/Replay LLM Providers
+ *
+ * RecordingLLMProvider wraps a real provider and writes every request and
+ * response to a cassette file. ReplayLLMProvider serves a cassette back in
+ * order without touching the network, and throws on the first request that
+ * differs from the recording. Together they turn a captured session into a
+ * deterministic regression test.
+ *
+ * @example
+ * const llm = new RecordingLLMProvider(realProvider, 'runs/fix-bug.cassette.json');
+ * // ...later, offline:
+ * const llm = new ReplayLLMProvider(await loadCassette('runs/fix-bug.cassette.json'));
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { Message, LLMResponse } from '../types.js';
+import {
+  isStreamingProvider,
+  type LLMProvider,
+  type LLMInvokeOptions,
+  type StreamingLLMProvider,
+  type StreamCallbacks,
+} from '../orchestrator.js';
+
+/** Bumped when the cassette format changes incompatibly */
+const CASSETTE_VERSION = 1;
+
+/**
+ * CassetteRequest - The parts of a request that must match on replay.
+ * Timestamps and abort signals are left out.
+ */
+export interface CassetteRequest {
+  systemPrompt: string;
+  messages: Array<Pick<Message, 'role' | 'content' | 'toolName' | 'toolCallId' | 'toolCalls'>>;
+
+  /** Names of the native tools offered, if any */
+  tools?: string[];
+}
+
+/**
+ * CassetteInteraction - One recorded invoke() call.
+ */
+export interface CassetteInteraction {
+  request: CassetteRequest;
+  response: LLMResponse;
+}
+
+/**
+ * Cassette - A recorded session.
+ */
+export interface Cassette {
+  version: number;
+  recordedAt: string;
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * ReplayMismatchError - A replayed request differs from the recording.
+ */
+export class ReplayMismatchError extends Error {
+  constructor(
+    message: string,
+    public readonly index: number,
+    public readonly expected?: CassetteRequest,
+    public readonly actual?: CassetteRequest
+  ) {
+    super(message);
+    this.name = 'ReplayMismatchError';
+  }
+}
+
+/**
+ * Reduce a request to its comparable, serializable form.
+ */
+function toCassetteRequest(
+  systemPrompt: string,
+  messages: Message[],
+  options?: LLMInvokeOptions
+): CassetteRequest {
+  return {
+    systemPrompt,
+    messages: messages.map(m => ({
+      role: m.role,
+      content: m.content,
+      toolName: m.toolName,
+      toolCallId: m.toolCallId,
+      toolCalls: m.toolCalls,
+    })),
+    tools: options?.tools?.map(t => t.name),
+  };
+}
+
+/**
+ * Report a complete response through stream callbacks: the text as a
+ * single token, then each tool call.
+ */
+function emitResponse(response: LLMResponse, callbacks: StreamCallbacks): void {
+  callbacks.onToken(response.content);
+  for (const call of response.toolCalls ?? []) {
+    callbacks.onToolCall?.(call);
+  }
+}
+
+/**
+ * Load a cassette from disk.
+ *
+ * @throws If the file is missing or has an unsupported version
+ */
+export async function loadCassette(filepath: string): Promise<Cassette> {
+  const cassette = JSON.parse(await fs.readFile(filepath, 'utf-8')) as Cassette;
+  if (cassette.version !== CASSETTE_VERSION) {
+    throw new Error(`Unsupported cassette version ${cassette.version} in ${filepath} (expected ${CASSETTE_VERSION})`);
+  }
+  return cassette;
+}
+
+/**
+ * RecordingLLMProvider - Passes requests through to a real provider and
+ * records them.
+ *
+ * The cassette is rewritten after every call, so a crashed or cancelled run
+ * still leaves everything up to that point on disk.
+ */
+export class RecordingLLMProvider implements StreamingLLMProvider {
+  private interactions: CassetteInteraction[] = [];
+  private recordedAt = new Date().toISOString();
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(
+    private inner: LLMProvider,
+    private filepath: string
+  ) {}
+
+  async invoke(systemPrompt: string, messages: Message[], options?: LLMInvokeOptions): Promise<LLMResponse> {
+    const request = toCassetteRequest(systemPrompt, messages, options);
+    const response = await this.inner.invoke(systemPrompt, messages, options);
+    await this.record(request, response);
+    return response;
+  }
+
+  /**
+   * Streams when the wrapped provider can; otherwise reports the complete
+   * response as a single token followed by its tool calls.
+   */
+  async invokeStream(
+    systemPrompt: string,
+    messages: Message[],
+    callbacks: StreamCallbacks,
+    options?: LLMInvokeOptions
+  ): Promise<LLMResponse> {
+    const request = toCassetteRequest(systemPrompt, messages, options);
+    let response: LLMResponse;
+    if (isStreamingProvider(this.inner)) {
+      response = await this.inner.invokeStream(systemPrompt, messages, callbacks, options);
+    } else {
+      response = await this.inner.invoke(systemPrompt, messages, options);
+      emitResponse(response, callbacks);
+    }
+    await this.record(request, response);
+    return response;
+  }
+
+  /**
+   * Everything recorded so far.
+   */
+  getCassette(): Cassette {
+    return {
+      version: CASSETTE_VERSION,
+      recordedAt: this.recordedAt,
+      interactions: [...this.interactions],
+    };
+  }
+
+  private async record(request: CassetteRequest, response: LLMResponse): Promise<void> {
+    this.interactions.push({ request, response });
+    const cassette = this.getCassette();
+
+    // Serialize writes so an older snapshot never overwrites a newer one.
+    // The chain itself never rejects, so one failed write doesn't fail
+    // every later call.
+    const write = this.writes.then(async () => {
+      await fs.mkdir(path.dirname(this.filepath), { recursive: true });
+      const tmpPath = `${this.filepath}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(cassette, null, 2), 'utf-8');
+      await fs.rename(tmpPath, this.filepath);
+    });
+    this.writes = write.catch(() => undefined);
+    await write;
+  }
+}
+
+/**
+ * ReplayLLMProviderOptions - Matching behaviour for replays.
+ */
+export interface ReplayLLMProviderOptions {
+  /**
+   * Applied to both the recorded and the live text before comparing.
+   * The default masks ISO timestamps, session IDs and timestamped artifact
+   * IDs, which differ between runs (e.g. in the NoteTaker's summaries).
+   */
+  normalize?: (text: string) => string;
+}
+
+/**
+ * Default normalizer for replay comparisons.
+ */
+export function normalizeVolatileText(text: string): string {
+  return text
+    .replace(/\d{4}-\d{2}-\d{2}T\d{2}[:-]\d{2}[:-]\d{2}(?:[.-]\d+)?Z?/g, '<timestamp>')
+    .replace(/session_[a-z0-9]+_[a-z0-9]+/g, '<session>')
+    .replace(/out_[a-z0-9]+_[a-z0-9]+/g, '<artifact>');
+}
+
+/**
+ * ReplayLLMProvider - Serves recorded responses in order.
+ *
+ * Each call must match the next recorded request (system prompt, messages
+ * and offered tools). A mismatch, or a call past the end of the cassette,
+ * throws a ReplayMismatchError describing the first difference. After
+ * that every call rethrows the same error, since the calls that follow
+ * can't match the recording either.
+ */
+export class ReplayLLMProvider implements StreamingLLMProvider {
+  private position = 0;
+  private failure?: ReplayMismatchError;
+  private normalize: (text: string) => string;
+
+  constructor(
+    private cassette: Cassette,
+    options: ReplayLLMProviderOptions = {}
+  ) {
+    this.normalize = options.normalize ?? normalizeVolatileText;
+  }
+
+  async invoke(systemPrompt: string, messages: Message[], options?: LLMInvokeOptions): Promise<LLMResponse> {
+    return Promise.resolve(this.next(toCassetteRequest(systemPrompt, messages, options)));
+  }
+
+  async invokeStream(
+    systemPrompt: string,
+    messages: Message[],
+    callbacks: StreamCallbacks,
+    options?: LLMInvokeOptions
+  ): Promise<LLMResponse> {
+    const response = this.next(toCassetteRequest(systemPrompt, messages, options));
+    emitResponse(response, callbacks);
+    return Promise.resolve(response);
+  }
+
+  /**
+   * Number of recorded interactions not yet replayed.
+   */
+  remaining(): number {
+    return this.cassette.interactions.length - this.position;
+  }
+
+  /**
+   * Throw unless every recorded interaction was replayed.
+   */
+  assertDone(): void {
+    if (this.failure) {
+      throw this.failure;
+    }
+    if (this.remaining() > 0) {
+      throw new ReplayMismatchError(
+        `Replay finished early: ${this.remaining()} of ${this.cassette.interactions.length} recorded calls were never made`,
+        this.position
+      );
+    }
+  }
+
+  private next(actual: CassetteRequest): LLMResponse {
+    if (this.failure) {
+      throw this.failure;
+    }
+
+    const index = this.position;
+    const interaction = this.cassette.interactions[index];
+    if (interaction === undefined) {
+      this.fail(new ReplayMismatchError(
+        `Replay exhausted: call #${index + 1} was not recorded (cassette has ${this.cassette.interactions.length} calls)`,
+        index,
+        undefined,
+        actual
+      ));
+    }
+
+    const difference = this.diff(interaction.request, actual);
+    if (difference !== null) {
+      this.fail(new ReplayMismatchError(
+        `Replay mismatch at call #${index + 1}: ${difference}`,
+        index,
+        interaction.request,
+        actual
+      ));
+    }
+
+    this.position++;
+    return structuredClone(interaction.response);
+  }
+
+  /**
+   * Throw the error, and again on every later call.
+   */
+  private fail(error: ReplayMismatchError): never {
+    this.failure = error;
+    throw error;
+  }
+
+  /**
+   * Describe the first difference between two requests, or null if they match.
+   */
+  private diff(expected: CassetteRequest, actual: CassetteRequest): string | null {
+    if (this.normalize(expected.systemPrompt) !== this.normalize(actual.systemPrompt)) {
+      return `system prompt differs\n${describeTextDiff(this.normalize(expected.systemPrompt), this.normalize(actual.systemPrompt))}`;
+    }
+
+    const expectedTools = (expected.tools ?? []).join(', ');
+    const actualTools = (actual.tools ?? []).join(', ');
+    if (expectedTools !== actualTools) {
+      return `offered tools differ\n  recorded: [${expectedTools}]\n  actual:   [${actualTools}]`;
+    }
+
+    const count = Math.max(expected.messages.length, actual.messages.length);
+    for (let i = 0; i < count; i++) {
+      const a = expected.messages[i];
+      const b = actual.messages[i];
+      if (a === undefined || b === undefined) {
+        return `message count differs (recorded ${expected.messages.length}, actual ${actual.messages.length})`;
+      }
+      if (a.role !== b.role) {
+        return `message ${i + 1} role differs (recorded ${a.role}, actual ${b.role})`;
+      }
+      const textA = this.normalize(a.content);
+      const textB = this.normalize(b.content);
+      if (textA !== textB) {
+        return `message ${i + 1} (${a.role}) content differs\n${describeTextDiff(textA, textB)}`;
+      }
+      if (JSON.stringify(a.toolCalls ?? null) !== JSON.stringify(b.toolCalls ?? null)) {
+        return `message ${i + 1} (${a.role}) tool calls differ`;
+      }
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Show the text around the first differing character.
+ */
+function describeTextDiff(expected: string, actual: string): string {
+  let at = 0;
+  while (at < expected.length && at < actual.length && expected[at] === actual[at]) {
+    at++;
+  }
+  const start = Math.max(0, at - 40);
+  const excerpt = (text: string): string => JSON.stringify(text.substring(start, at + 80));
+  return `  at character ${at}\n  recorded: ${excerpt(expected)}\n  actual:   ${excerpt(actual)}`;
+}
+
+/**
+ * Create a provider that records to a cassette file.
+ */
+export function createRecordingProvider(inner: LLMProvider, filepath: string): RecordingLLMProvider {
+  return new RecordingLLMProvider(inner, filepath);
+}
+
+/**
+ * Create a provider that replays a cassette file.
+ */
+export async function createReplayProvider(
+  filepath: string,
+  options?: ReplayLLMProviderOptions
+): Promise<ReplayLLMProvider> {
+  return new ReplayLLMProvider(await loadCassette(filepath), options);
+}
@@ -12,8 +12,12 @@ import type {
   ParsedAction, 
   ExecutionResult, 
   RunContext,
-  Logger 
+  Logger,
+  ToolCall,
+  ToolDefinition,
 } from './types.js';
+import { validateSchema, describeSchema } from './schema.js';
+import type { ApprovalGate } from './approval.js';
 
 /**
  * ExtensionRegistry - Central registry for all agent extensions.
@@ -28,11 +32,20 @@ export class ExtensionRegistry {
   private extensions: Map<string, IExtension> = new Map();
   private tagToExtension: Map<string, IExtension> = new Map();
   private logger: Logger;
+  private approvalGate: ApprovalGate | null = null;
 
   constructor(logger: Logger) {
     this.logger = logger;
   }
 
+  /**
+   * Require actions to pass an approval gate before they execute.
+   * Pass null to remove the gate.
+   */
+  setApprovalGate(gate: ApprovalGate | null): void {
+    this.approvalGate = gate;
+  }
+
   /**
    * Register an extension with the registry.
    * 
@@ -142,30 +155,52 @@ export class ExtensionRegistry {
    * @returns Array of parsed actions with their source extensions
    */
   parseOutput(output: string): Array<{ extension: IExtension; action: ParsedAction }> {
+    return this.parseCompletedActions(output).actions;
+  }
+
+  /**
+   * Parse actions whose closing tag has already arrived in a partial output.
+   * 
+   * Used while streaming: call repeatedly with the growing buffer and the
+   * offset returned by the previous call. Only fully closed tags are parsed;
+   * an opened but unclosed tag stays after the returned offset and is picked
+   * up once its closing tag streams in.
+   * 
+   * @param output - LLM output received so far
+   * @param offset - Position to resume scanning from
+   * @returns Newly completed actions and the offset to resume from
+   */
+  parseCompletedActions(
+    output: string,
+    offset: number = 0
+  ): { actions: Array<{ extension: IExtension; action: ParsedAction }>; offset: number } {
     const actions: Array<{ extension: IExtension; action: ParsedAction }> = [];
 
     // Build regex to match any registered tag
     const tags = this.listTags();
     if (tags.length === 0) {
-      return actions;
+      return { actions, offset };
     }
 
-    // Match <tag>content</tag> or <tag attr="value">content</tag>
+    // Match <tag>content</tag>, <tag attr="value">content</tag> or <tag attr="value"/>
     const tagPattern = tags.map(t => this.escapeRegex(t)).join('|');
     const regex = new RegExp(
-      `<(${tagPattern})(?:\\s[^>]*)?>([\\s\\S]*?)<\\/\\1>`,
+      `<(${tagPattern})(\\s[^>]*?)?\\s*(?:\\/>|>([\\s\\S]*?)<\\/\\1>)`,
       'gi'
     );
+    regex.lastIndex = offset;
 
+    let nextOffset = offset;
     let match: RegExpExecArray | null;
     while ((match = regex.exec(output)) !== null) {
-      const [, tagName, content] = match;
+      const [, tagName, rawAttributes = '', content = ''] = match;
       const extension = this.tagToExtension.get(tagName.toLowerCase());
+      nextOffset = regex.lastIndex;
 
       if (extension) {
         const timer = this.logger.startTimer(`parse:${extension.name}`);
         try {
-          const action = extension.parse(content.trim());
+          const action = extension.parse(content.trim(), parseAttributes(rawAttributes));
           if (action) {
             actions.push({ extension, action });
             this.logger.debug(`Parsed action from <${tagName}>`, {
@@ -188,9 +223,101 @@ export class ExtensionRegistry {
       }
     }
 
+    return { actions, offset: nextOffset };
+  }
+
+  /**
+   * Describe every registered extension as a native function-calling tool.
+   * 
+   * Extensions with a parametersSchema use it as the tool's input schema.
+   * Others take a single `content` string holding what would otherwise be
+   * written between the extension's XML tags.
+   */
+  getToolDefinitions(): ToolDefinition[] {
+    return this.listAll().map(ext => ({
+      name: ext.name,
+      description: ext.description,
+      inputSchema: ext.parametersSchema ?? {
+        type: 'object',
+        properties: {
+          content: {
+            type: 'string',
+            description: `The content you would place inside <${ext.triggerTag}>...</${ext.triggerTag}>`,
+          },
+        },
+        required: ['content'],
+      },
+    }));
+  }
+
+  /**
+   * Route native tool calls to their extensions.
+   * 
+   * Calls are matched by extension name and parsed with parseToolCall. Without
+   * one, the arguments become the parameters directly if the extension has a
+   * parametersSchema, or are passed through parse() as `content` otherwise.
+   * Unknown tools and calls that fail to parse are logged and skipped.
+   * 
+   * @param calls - Tool calls from the LLM response
+   * @returns Parsed actions, tagged with their tool call IDs
+   */
+  parseToolCalls(calls: ToolCall[]): Array<{ extension: IExtension; action: ParsedAction }> {
+    const actions: Array<{ extension: IExtension; action: ParsedAction }> = [];
+
+    for (const call of calls) {
+      const extension = this.extensions.get(call.name);
+      if (!extension) {
+        this.logger.warn(`Tool call for unknown extension: ${call.name}`, { toolCallId: call.id });
+        continue;
+      }
+
+      const timer = this.logger.startTimer(`parse:${extension.name}`);
+      try {
+        let action: ParsedAction | null;
+        if (extension.parseToolCall) {
+          action = extension.parseToolCall(call.arguments);
+        } else if (extension.parametersSchema) {
+          action = { tool: extension.name, parameters: call.arguments };
+        } else {
+          action = extension.parse(
+            typeof call.arguments.content === 'string' ? call.arguments.content.trim() : ''
+          );
+        }
+
+        if (action) {
+          actions.push({ extension, action: { ...action, toolCallId: call.id } });
+          this.logger.debug(`Parsed action from tool call ${call.id}`, {
+            extension: extension.name,
+            parameters: action.parameters,
+          });
+        } else {
+          this.logger.warn(`Extension ${extension.name} returned null for tool call`, {
+            toolCallId: call.id,
+          });
+        }
+      } catch (error) {
+        this.logger.error(`Parse error in extension ${extension.name}`, {
+          error: error instanceof Error ? error.message : String(error),
+          toolCallId: call.id,
+        });
+      } finally {
+        timer();
+      }
+    }
+
     return actions;
   }
 
+  /**
+   * Whether any extension rewrites LLM output via onLLMOutput.
+   * 
+   * Actions can only be dispatched mid-stream when the raw output is what
+   * gets parsed, so streaming early dispatch is disabled if this is true.
+   */
+  hasOutputCallbacks(): boolean {
+    return this.listAll().some(ext => ext.onLLMOutput !== undefined);
+  }
+
   /**
    * Execute a parsed action through its extension.
    * 
@@ -206,6 +333,48 @@ export class ExtensionRegistry {
   ): Promise<ExecutionResult> {
     const timer = this.logger.startTimer(`execute:${extension.name}`);
     
+    // Reject actions that don't match the declared parameter schema
+    if (extension.parametersSchema) {
+      const problems = validateSchema(action.parameters, extension.parametersSchema);
+      if (problems.length > 0) {
+        this.logger.warn(`Invalid parameters for ${extension.name}`, { problems });
+        timer();
+        return {
+          success: false,
+          output: [
+            `Invalid parameters for ${extension.name}:`,
+            ...problems.map(p => `- ${p}`),
+            '',
+            'Expected parameters:',
+            describeSchema(extension.parametersSchema),
+          ].join('\n'),
+          error: {
+            code: 'INVALID_PARAMETERS',
+            message: problems.join('; '),
+            recoverable: true,
+            suggestion: `Expected parameters:\n${describeSchema(extension.parametersSchema)}`,
+          },
+        };
+      }
+    }
+    
+    if (this.approvalGate) {
+      const verdict = await this.approvalGate.check(extension, action, context);
+      if (!verdict.approved) {
+        timer();
+        return {
+          success: false,
+          output: `Action not approved: ${verdict.reason}`,
+          error: {
+            code: 'ACTION_DENIED',
+            message: verdict.reason,
+            recoverable: true,
+            suggestion: 'Do not retry the same action; find another way or ask the user for help',
+          },
+        };
+      }
+    }
+    
     try {
       this.logger.info(`Executing ${extension.name}`, {
         tool: action.tool,
@@ -241,6 +410,23 @@ export class ExtensionRegistry {
     }
   }
 
+  /**
+   * Whether an action can safely run concurrently with other read-only actions.
+   */
+  isReadOnly(extension: IExtension, action: ParsedAction): boolean {
+    if (!extension.isReadOnly) {
+      return false;
+    }
+    try {
+      return extension.isReadOnly(action);
+    } catch (error) {
+      this.logger.error(`isReadOnly error in ${extension.name}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
   /**
    * Apply onInputMessages callbacks from all extensions.
    * 
@@ -305,6 +491,10 @@ export class ExtensionRegistry {
     for (const ext of this.extensions.values()) {
       docs.push(`## <${ext.triggerTag}>`);
       docs.push(`${ext.description}\n`);
+      if (ext.parametersSchema) {
+        docs.push('Parameters:');
+        docs.push(`${describeSchema(ext.parametersSchema)}\n`);
+      }
     }
 
     return docs.join('\n');
@@ -334,6 +524,17 @@ export class ExtensionRegistry {
   }
 }
 
+/**
+ * Parse the attributes of an opening tag, e.g. ` id="a" range='1-5'`.
+ */
+function parseAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, doubleQuoted, singleQuoted] of raw.matchAll(/([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[name.toLowerCase()] = doubleQuoted ?? singleQuoted;
+  }
+  return attributes;
+}
+
 /**
  * Create a new extension registry with the given logger.
  */
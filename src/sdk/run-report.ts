@@ -0,0 +1,149 @@
+/**
+ * Confucius SDK - Run Reports
+ *
+ * A machine-readable summary of a run for scripts and CI: why it ended,
+ * the final message, every action and its result, token usage and the
+ * artifacts produced. RunRecorder builds one by listening to orchestrator
+ * events; exitCodeFor() maps the outcome to a process exit code.
+ *
+ * @example
+ * const recorder = new RunRecorder(orchestrator);
+ * const state = await orchestrator.run(task);
+ * console.log(JSON.stringify(recorder.report(state)));
+ * process.exitCode = exitCodeFor(state.terminationReason);
+ */
+
+import type { Artifact, CostBreakdown, ExecutionResult, OrchestratorState } from './types.js';
+import type { ConfuciusOrchestrator } from './orchestrator.js';
+
+/**
+ * Process exit codes by termination reason. Anything that ends the
+ * process without a run (bad flags, unreadable config) exits with 1.
+ */
+export const EXIT_CODES: Record<NonNullable<OrchestratorState['terminationReason']>, number> = {
+  completed: 0,
+  error: 1,
+  max_iterations: 2,
+  budget_exceeded: 3,
+  stuck: 4,
+  user_cancelled: 130,
+};
+
+/**
+ * Exit code for a run that ended for the given reason.
+ */
+export function exitCodeFor(reason: OrchestratorState['terminationReason']): number {
+  return reason !== undefined ? EXIT_CODES[reason] : EXIT_CODES.error;
+}
+
+/**
+ * ArtifactSummary - An artifact without its content.
+ */
+export interface ArtifactSummary {
+  id: string;
+  name: string;
+  mimeType: string;
+  path?: string;
+
+  /** Size of the inline content in bytes, if any */
+  size?: number;
+}
+
+/**
+ * ActionReport - One executed (or vetoed/denied) action.
+ */
+export interface ActionReport {
+  iteration: number;
+  extension: string;
+  parameters: Record<string, unknown>;
+  success: boolean;
+  output: string;
+  error?: { code: string; message: string };
+}
+
+/**
+ * RunReport - Everything a script needs to know about a finished run.
+ */
+export interface RunReport {
+  sessionId?: string;
+  terminationReason: NonNullable<OrchestratorState['terminationReason']> | 'unknown';
+  success: boolean;
+
+  /** The finish message, final answer, or reason for stopping */
+  message: string;
+
+  iterations: number;
+  actions: ActionReport[];
+  usage?: CostBreakdown;
+  artifacts: ArtifactSummary[];
+  exitCode: number;
+}
+
+/**
+ * Strip the content from an artifact.
+ */
+export function summarizeArtifact(artifact: Artifact): ArtifactSummary {
+  return {
+    id: artifact.id,
+    name: artifact.name,
+    mimeType: artifact.mimeType,
+    path: artifact.path,
+    size: artifact.content !== undefined ? Buffer.byteLength(artifact.content) : undefined,
+  };
+}
+
+/**
+ * Report form of an execution result: artifacts reduced to summaries so
+ * the result is small and JSON-safe.
+ */
+export function toJsonResult(result: ExecutionResult): Omit<ExecutionResult, 'artifacts'> & { artifacts?: ArtifactSummary[] } {
+  return { ...result, artifacts: result.artifacts?.map(summarizeArtifact) };
+}
+
+/**
+ * RunRecorder - Collects actions and artifacts from orchestrator events.
+ */
+export class RunRecorder {
+  private actions: ActionReport[] = [];
+  private artifacts = new Map<string, ArtifactSummary>();
+
+  constructor(orchestrator: ConfuciusOrchestrator) {
+    orchestrator.on('action:result', ({ iteration, extension, action, result }) => {
+      this.actions.push({
+        iteration,
+        extension,
+        parameters: action.parameters,
+        success: result.success,
+        output: result.output,
+        error: result.error ? { code: result.error.code, message: result.error.message } : undefined,
+      });
+      for (const artifact of result.artifacts ?? []) {
+        this.artifacts.set(artifact.id, summarizeArtifact(artifact));
+      }
+    });
+  }
+
+  /**
+   * Build the report for a finished run.
+   */
+  report(state: OrchestratorState): RunReport {
+    return {
+      sessionId: state.sessionId,
+      terminationReason: state.terminationReason ?? 'unknown',
+      success: state.terminationReason === 'completed',
+      message: state.result?.output ?? '',
+      iterations: state.iteration,
+      actions: [...this.actions],
+      usage: state.cost,
+      artifacts: Array.from(this.artifacts.values()),
+      exitCode: exitCodeFor(state.terminationReason),
+    };
+  }
+}
+
+/**
+ * Create a recorder listening to an orchestrator.
+ */
+export function createRunRecorder(orchestrator: ConfuciusOrchestrator): RunRecorder {
+  return new RunRecorder(orchestrator);
+}
@@ -0,0 +1,110 @@
+/**
+ * Confucius SDK - Parameter Schema Validation
+ *
+ * A small JSON Schema validator for extension parameters. Covers the
+ * subset described by JSONSchema: type, properties, required, enum,
+ * items and additionalProperties.
+ */
+
+import type { JSONSchema } from './types.js';
+
+/**
+ * Validate a value against a schema.
+ *
+ * @param value - The value to check
+ * @param schema - The schema to check against
+ * @param path - Name of the value, used as the prefix in error messages
+ * @returns A list of problems; empty if the value is valid
+ */
+export function validateSchema(value: unknown, schema: JSONSchema, path: string = 'parameters'): string[] {
+  const errors: string[] = [];
+
+  if (schema.type !== undefined && !matchesType(value, schema.type)) {
+    errors.push(`${path}: expected ${schema.type}, got ${describeType(value)}`);
+    return errors;
+  }
+
+  if (schema.enum !== undefined && !schema.enum.includes(value as string | number | boolean)) {
+    errors.push(`${path}: must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`);
+  }
+
+  if (isObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined) {
+        errors.push(`${path}.${key}: is required`);
+      }
+    }
+
+    for (const [key, propSchema] of Object.entries(schema.properties ?? {})) {
+      if (value[key] !== undefined) {
+        errors.push(...validateSchema(value[key], propSchema, `${path}.${key}`));
+      }
+    }
+
+    if (schema.additionalProperties === false) {
+      const known = new Set(Object.keys(schema.properties ?? {}));
+      for (const key of Object.keys(value)) {
+        if (!known.has(key)) {
+          errors.push(`${path}.${key}: is not an allowed parameter`);
+        }
+      }
+    }
+  }
+
+  if (Array.isArray(value) && schema.items !== undefined) {
+    const itemSchema = schema.items;
+    value.forEach((item, i) => {
+      errors.push(...validateSchema(item, itemSchema, `${path}[${i}]`));
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Render a schema's top-level parameters as a Markdown list for tool docs.
+ */
+export function describeSchema(schema: JSONSchema): string {
+  const required = new Set(schema.required ?? []);
+  const lines: string[] = [];
+
+  for (const [name, prop] of Object.entries(schema.properties ?? {})) {
+    const details = [prop.type ?? 'any', required.has(name) ? 'required' : 'optional'];
+    let line = `- \`${name}\` (${details.join(', ')})`;
+    if (prop.enum !== undefined) {
+      line += `: one of ${prop.enum.map(v => JSON.stringify(v)).join(' | ')}`;
+    }
+    if (prop.description !== undefined) {
+      line += `${prop.enum !== undefined ? '. ' : ': '}${prop.description}`;
+    }
+    lines.push(line);
+  }
+
+  return lines.join('\n');
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function matchesType(value: unknown, type: NonNullable<JSONSchema['type']>): boolean {
+  switch (type) {
+    case 'object':
+      return isObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
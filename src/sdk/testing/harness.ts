@@ -0,0 +1,264 @@
+/**
+ * Confucius SDK - Orchestrator Test Harness
+ *
+ * Runs the real ConfuciusOrchestrator loop against a MockLLMProvider in a
+ * throwaway working directory, and hands back everything that happened:
+ * final state, memory trace, lifecycle events, executed actions, LLM
+ * requests, artifacts and logs. Extension authors can plug a new
+ * IExtension into the actual loop and assert on the result.
+ *
+ * @example
+ * const run = await runOrchestratorTest({
+ *   task: 'Say hello',
+ *   script: ['<greet>world</greet>', '<finish>done</finish>'],
+ *   extensions: [new GreetExtension()],
+ * });
+ * assert.equal(run.state.terminationReason, 'completed');
+ * assert.equal(run.actions[0].result.output, 'Hello, world');
+ * await run.cleanup();
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type {
+  IExtension,
+  ParsedAction,
+  ExecutionResult,
+  Message,
+  Logger,
+  RunConfig,
+  OrchestratorState,
+  Artifact,
+} from '../types.js';
+import { ConfuciusOrchestrator, type LLMProvider, type RunOptions } from '../orchestrator.js';
+import { ExtensionRegistry } from '../registry.js';
+import { CheckpointStore } from '../memory/checkpoint-store.js';
+import { MemoryArtifactStore } from '../artifacts/memory-store.js';
+import {
+  MockLLMProvider,
+  type MockCall,
+  type MockReply,
+  type MockResponder,
+} from '../providers/mock.js';
+import {
+  createBashExtension,
+  createFileEditExtension,
+  createThinkExtension,
+  createFinishExtension,
+} from '../extensions/index.js';
+import { ORCHESTRATOR_EVENT_NAMES, type OrchestratorEventName, type OrchestratorEvents } from '../events.js';
+
+/** Reply used for Architect, NoteTaker and Meta-Agent calls by default */
+const DEFAULT_AGENT_REPLY = '(mock sub-agent response)';
+
+/**
+ * HarnessOptions - What to run and how.
+ */
+export interface HarnessOptions {
+  /** The task given to the agent */
+  task: string;
+
+  /** Main-loop replies, in order, or a function of the incoming messages */
+  script: MockReply[] | MockResponder | LLMProvider;
+
+  /**
+   * Replies for the Architect, NoteTaker and Meta-Agent. Kept separate so
+   * the script only has to cover the main loop. Default: a fixed reply.
+   */
+  agentScript?: MockReply[] | MockResponder | LLMProvider;
+
+  /** Extensions under test, registered after the built-ins */
+  extensions?: IExtension[];
+
+  /** Register bash, file_edit, think and finish, rooted in the working directory. Default: true */
+  builtins?: boolean;
+
+  /** Files to create in the working directory before the run, by relative path */
+  files?: Record<string, string>;
+
+  /** Overrides for the run configuration */
+  config?: Partial<RunConfig>;
+
+  /** System prompt. Default: a minimal prompt plus the generated tool docs */
+  systemPrompt?: string;
+
+  /** Per-run options such as an AbortSignal */
+  runOptions?: RunOptions;
+
+  /** Print logs to stdout as well as collecting them */
+  verbose?: boolean;
+}
+
+/**
+ * HarnessLogEntry - A captured log line.
+ */
+export interface HarnessLogEntry {
+  level: 'debug' | 'info' | 'warn' | 'error';
+  message: string;
+  meta?: Record<string, unknown>;
+}
+
+/**
+ * HarnessEvent - A captured lifecycle event.
+ */
+export type HarnessEvent = {
+  [K in OrchestratorEventName]: { event: K; payload: OrchestratorEvents[K] };
+}[OrchestratorEventName];
+
+/**
+ * HarnessResult - Everything that happened during the run.
+ */
+export interface HarnessResult {
+  /** Final orchestrator state */
+  state: OrchestratorState;
+
+  /** Temporary directory the run executed in */
+  workingDirectory: string;
+
+  /** Full memory at the end of the run: session, entry and runnable scopes */
+  trace: Message[];
+
+  /** Every executed (or vetoed/denied) action with its result, in order */
+  actions: Array<{ extension: string; action: ParsedAction; result: ExecutionResult }>;
+
+  /** Lifecycle events in the order they fired */
+  events: HarnessEvent[];
+
+  /** Main-loop LLM requests, when the script was a mock */
+  llmCalls: MockCall[];
+
+  /** Artifacts saved during the run */
+  artifacts: Artifact[];
+
+  /** Captured log lines */
+  logs: HarnessLogEntry[];
+
+  /** Delete the working directory */
+  cleanup: () => Promise<void>;
+}
+
+/**
+ * Run the orchestrator on a task with scripted LLM responses.
+ */
+export async function runOrchestratorTest(options: HarnessOptions): Promise<HarnessResult> {
+  const workingDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'confucius-test-'));
+  const cleanup = (): Promise<void> => fs.rm(workingDirectory, { recursive: true, force: true });
+
+  for (const [relativePath, content] of Object.entries(options.files ?? {})) {
+    const filepath = path.join(workingDirectory, relativePath);
+    await fs.mkdir(path.dirname(filepath), { recursive: true });
+    await fs.writeFile(filepath, content, 'utf-8');
+  }
+
+  const logs: HarnessLogEntry[] = [];
+  const logger = createCapturingLogger(logs, options.verbose === true);
+
+  const registry = new ExtensionRegistry(logger);
+  if (options.builtins !== false) {
+    registry.register(createBashExtension({ cwd: workingDirectory }));
+    registry.register(createFileEditExtension({ basePath: workingDirectory }));
+    registry.register(createThinkExtension());
+    registry.register(createFinishExtension());
+  }
+  for (const extension of options.extensions ?? []) {
+    registry.register(extension);
+  }
+
+  const llm = toProvider(options.script);
+  const agentLLM = toProvider(options.agentScript ?? ((): MockReply => DEFAULT_AGENT_REPLY));
+  const artifacts = new MemoryArtifactStore();
+
+  const orchestrator = new ConfuciusOrchestrator({
+    llm,
+    agentLLM,
+    registry,
+    logger,
+    artifacts,
+    systemPrompt: options.systemPrompt ?? 'You are a coding agent under test. Use the tools below.',
+    workingDirectory,
+    config: {
+      maxIterations: 10,
+      compressionThreshold: 100000,
+      enabledExtensions: registry.listNames(),
+      ...options.config,
+      model: {
+        provider: 'local',
+        name: 'mock',
+        supportsToolUse: false,
+        ...options.config?.model,
+      },
+    },
+  });
+
+  const events: HarnessEvent[] = [];
+  for (const event of ORCHESTRATOR_EVENT_NAMES) {
+    orchestrator.on(event, (payload) => events.push({ event, payload } as HarnessEvent));
+  }
+
+  let state: OrchestratorState;
+  try {
+    state = await orchestrator.run(options.task, options.runOptions);
+  } catch (error) {
+    await cleanup();
+    throw error;
+  }
+
+  const trace: Message[] = [];
+  if (state.sessionId !== undefined) {
+    const checkpoint = await new CheckpointStore(logger, workingDirectory).load(state.sessionId);
+    if (checkpoint) {
+      trace.push(...checkpoint.memory.session, ...checkpoint.memory.entry, ...checkpoint.memory.runnable);
+    }
+  }
+
+  const actions: HarnessResult['actions'] = [];
+  for (const entry of events) {
+    if (entry.event === 'action:result') {
+      const { extension, action, result } = entry.payload;
+      actions.push({ extension, action, result });
+    }
+  }
+
+  return {
+    state,
+    workingDirectory,
+    trace,
+    actions,
+    events,
+    llmCalls: llm instanceof MockLLMProvider ? [...llm.calls] : [],
+    artifacts: await artifacts.list(),
+    logs,
+    cleanup,
+  };
+}
+
+/**
+ * Wrap a script in a MockLLMProvider; pass real providers through.
+ */
+function toProvider(script: MockReply[] | MockResponder | LLMProvider): LLMProvider {
+  if (Array.isArray(script) || typeof script === 'function') {
+    return new MockLLMProvider(script);
+  }
+  return script;
+}
+
+/**
+ * Logger that records every line and optionally echoes to stdout.
+ */
+function createCapturingLogger(logs: HarnessLogEntry[], verbose: boolean): Logger {
+  const log = (level: HarnessLogEntry['level']) => (message: string, meta?: Record<string, unknown>): void => {
+    logs.push({ level, message, meta });
+    if (verbose) {
+      process.stdout.write(`[${level}] ${message}${meta ? ` ${JSON.stringify(meta)}` : ''}\n`);
+    }
+  };
+
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+    startTimer: () => (): void => undefined,
+  };
+}
@@ -0,0 +1,13 @@
+/**
+ * Confucius SDK - Testing Utilities
+ * 
+ * Run the real orchestrator loop against scripted LLM responses.
+ */
+
+export { runOrchestratorTest } from './harness.js';
+export type {
+  HarnessOptions,
+  HarnessResult,
+  HarnessEvent,
+  HarnessLogEntry,
+} from './harness.js';
@@ -0,0 +1,190 @@
+/**
+ * Confucius SDK - Tokenizers
+ *
+ * Token counting for working memory. The default counts with the BPE
+ * vocabulary of the model family (bundled, so no network access is
+ * needed); models without a public tokenizer, such as Claude, are
+ * approximated with cl100k_base, which is far closer for code, JSON and
+ * non-English text than a character estimate.
+ *
+ * Any object with a `count()` method can be passed in instead, e.g. a
+ * provider's own tokenizer.
+ *
+ * @example
+ * const tokenizer = getTokenizer('gpt-4o');  // o200k_base
+ * tokenizer.count('const x = { "a": 1 };');
+ */
+
+import { createRequire } from 'module';
+import { Tiktoken, type TiktokenBPE } from 'js-tiktoken/lite';
+import { lookupModel } from './models.js';
+
+/**
+ * Tokenizer - Counts the tokens a model would see for a piece of text.
+ */
+export interface Tokenizer {
+  /** Shown in memory stats, e.g. "o200k_base" */
+  readonly name: string;
+
+  count: (text: string) => number;
+}
+
+/** Bundled BPE vocabularies */
+export type BpeEncoding = 'cl100k_base' | 'o200k_base';
+
+/**
+ * Model name prefixes (without any `provider/` prefix) and their
+ * encodings, matched by longest prefix (see lookupModel). Unlisted models
+ * use cl100k_base.
+ */
+export const MODEL_ENCODINGS: Record<string, BpeEncoding> = {
+  'gpt-5': 'o200k_base',
+  'gpt-4.5': 'o200k_base',
+  'gpt-4.1': 'o200k_base',
+  'gpt-4o': 'o200k_base',
+  'chatgpt-4o': 'o200k_base',
+  'o1': 'o200k_base',
+  'o3': 'o200k_base',
+  'o4': 'o200k_base',
+  'gpt-4': 'cl100k_base',
+  'gpt-3.5': 'cl100k_base',
+  'text-embedding-3': 'cl100k_base',
+};
+
+/** Longer texts are counted from a sample and scaled, to bound the cost */
+const MAX_EXACT_LENGTH = 256 * 1024;
+
+/**
+ * Texts are encoded in chunks of at most this many characters. BPE merging
+ * is quadratic in the length of a pre-token, and a minified file or a long
+ * run of one character can be a single huge pre-token.
+ */
+const MAX_CHUNK_LENGTH = 128;
+
+// Rank tables are a few MB each, so they are only loaded when first used
+const require = createRequire(import.meta.url);
+
+/**
+ * CharEstimateTokenizer - The old rough estimate of 4 characters per token.
+ */
+export class CharEstimateTokenizer implements Tokenizer {
+  readonly name = 'chars/4';
+
+  count(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+}
+
+/**
+ * BpeTokenizer - Exact counts for one of the bundled BPE vocabularies.
+ */
+export class BpeTokenizer implements Tokenizer {
+  private encoder: Tiktoken | null = null;
+
+  constructor(readonly name: BpeEncoding) {}
+
+  count(text: string): number {
+    if (text.length <= MAX_EXACT_LENGTH) {
+      return this.encode(text);
+    }
+    // Count the head and tail, and scale by length for the rest
+    const half = MAX_EXACT_LENGTH / 2;
+    const sampled = this.encode(text.substring(0, half)) + this.encode(text.substring(text.length - half));
+    return Math.ceil(sampled * (text.length / MAX_EXACT_LENGTH));
+  }
+
+  private encode(text: string): number {
+    if (this.encoder === null) {
+      this.encoder = new Tiktoken(require(`js-tiktoken/ranks/${this.name}`) as TiktokenBPE);
+    }
+    let tokens = 0;
+    for (const chunk of splitForEncoding(text)) {
+      // Special tokens such as <|endoftext|> are counted as plain text
+      tokens += this.encoder.encode(chunk, [], []).length;
+    }
+    return tokens;
+  }
+}
+
+/**
+ * Split text into chunks of at most MAX_CHUNK_LENGTH characters, breaking
+ * before whitespace where possible so words (which BPE encodes with their
+ * leading space) stay whole.
+ */
+function splitForEncoding(text: string): string[] {
+  const chunks: string[] = [];
+  let start = 0;
+  while (text.length - start > MAX_CHUNK_LENGTH) {
+    let end = start + MAX_CHUNK_LENGTH;
+    while (end > start && !/\s/.test(text[end])) {
+      end--;
+    }
+    if (end === start) {
+      end = start + MAX_CHUNK_LENGTH;
+    }
+    chunks.push(text.substring(start, end));
+    start = end;
+  }
+  chunks.push(text.substring(start));
+  return chunks;
+}
+
+/**
+ * CachedTokenizer - Remembers counts for recently seen texts, so
+ * recounting memory after compression or a checkpoint restore only
+ * tokenizes messages that changed.
+ */
+export class CachedTokenizer implements Tokenizer {
+  private cache = new Map<string, number>();
+
+  constructor(private tokenizer: Tokenizer, private maxEntries: number = 2000) {}
+
+  get name(): string {
+    return this.tokenizer.name;
+  }
+
+  count(text: string): number {
+    const cached = this.cache.get(text);
+    if (cached !== undefined) {
+      // Move to the end so the least recently used entry is evicted first
+      this.cache.delete(text);
+      this.cache.set(text, cached);
+      return cached;
+    }
+
+    const tokens = this.tokenizer.count(text);
+    this.cache.set(text, tokens);
+    if (this.cache.size > this.maxEntries) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest !== undefined) {
+        this.cache.delete(oldest);
+      }
+    }
+    return tokens;
+  }
+}
+
+/**
+ * The encoding used for a model name, optionally prefixed with `provider/`.
+ */
+export function resolveEncoding(model: string): BpeEncoding {
+  return lookupModel(model, MODEL_ENCODINGS) ?? 'cl100k_base';
+}
+
+const sharedTokenizers = new Map<BpeEncoding, Tokenizer>();
+
+/**
+ * Get the cached tokenizer for a model. Instances (and their caches) are
+ * shared between callers using the same encoding.
+ *
+ * @param model - Model name; defaults to cl100k_base when omitted or unknown
+ */
+export function getTokenizer(model?: string): Tokenizer {
+  const encoding = model !== undefined ? resolveEncoding(model) : 'cl100k_base';
+  let tokenizer = sharedTokenizers.get(encoding);
+  if (tokenizer === undefined) {
+    tokenizer = new CachedTokenizer(new BpeTokenizer(encoding));
+    sharedTokenizers.set(encoding, tokenizer);
+  }
+  return tokenizer;
+}
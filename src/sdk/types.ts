@@ -7,6 +7,8 @@
  * @see https://arxiv.org/abs/2512.10398v5 (Confucius Code Agent Paper)
  */
 
+import type { CompressionStrategy } from './compression.js';
+
 // ============================================================================
 // Extension System Types
 // ============================================================================
@@ -34,14 +36,37 @@ export interface IExtension {
    */
   triggerTag: string;
   
+  /**
+   * JSON Schema for ParsedAction.parameters.
+   * 
+   * When set, the registry validates every parsed action against it before
+   * execute() and returns an INVALID_PARAMETERS error instead of running
+   * the extension. It is also rendered into the tool documentation and
+   * used as the input schema for native tool calls.
+   */
+  parametersSchema?: JSONSchema;
+  
   /**
    * Parse the LLM's output content for this tag.
    * Returns null if parsing fails or content is invalid.
    * 
-   * @param content - The raw content between the XML tags
+   * @param content - The raw content between the XML tags (empty for a
+   *   self-closing tag)
+   * @param attributes - Attributes of the opening tag, with lowercased names
+   * @returns Parsed action or null if invalid
+   */
+  parse: (content: string, attributes?: Record<string, string>) => ParsedAction | null;
+  
+  /**
+   * Parse the arguments of a native tool call (see RunConfig.model.supportsToolUse).
+   * Defaults to using the arguments as parameters when parametersSchema is
+   * set, and otherwise to calling parse() with the `content` argument, which
+   * holds the same text that would appear between the XML tags.
+   * 
+   * @param args - Arguments decoded from the model's tool call
    * @returns Parsed action or null if invalid
    */
-  parse: (content: string) => ParsedAction | null;
+  parseToolCall?: (args: Record<string, unknown>) => ParsedAction | null;
   
   /**
    * Execute the parsed action and return results.
@@ -72,6 +97,13 @@ export interface IExtension {
    */
   onLLMOutput?: (output: string, context: RunContext) => string;
   
+  /**
+   * Whether an action is free of side effects (e.g. thinking, reading a file).
+   * Consecutive read-only actions from one LLM response run concurrently;
+   * anything else runs serially. Default: not read-only
+   */
+  isReadOnly?: (action: ParsedAction) => boolean;
+  
   /**
    * Whether this extension signals continuation after execution.
    * If true, the orchestrator will invoke the LLM again with updated memory.
@@ -95,6 +127,51 @@ export interface ParsedAction {
   
   /** Original raw content for debugging */
   rawContent?: string;
+  
+  /** ID of the native tool call this action came from, if any */
+  toolCallId?: string;
+}
+
+/**
+ * JSONSchema - The subset of JSON Schema used to describe tool parameters.
+ */
+export interface JSONSchema {
+  type?: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'null';
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  enum?: Array<string | number | boolean>;
+  additionalProperties?: boolean;
+  [key: string]: unknown;
+}
+
+/**
+ * ToolDefinition - An extension described as a native function-calling tool.
+ */
+export interface ToolDefinition {
+  /** Tool name (the extension name) */
+  name: string;
+  
+  /** What the tool does */
+  description: string;
+  
+  /** JSON Schema for the tool's arguments */
+  inputSchema: JSONSchema;
+}
+
+/**
+ * ToolCall - A structured tool invocation returned by the model.
+ */
+export interface ToolCall {
+  /** Provider-assigned call ID, echoed back with the result */
+  id: string;
+  
+  /** Name of the tool being called */
+  name: string;
+  
+  /** Decoded arguments */
+  arguments: Record<string, unknown>;
 }
 
 /**
@@ -151,6 +228,18 @@ export interface Message {
   /** For tool messages, which tool produced this */
   toolName?: string;
   
+  /** For assistant messages, native tool calls made in this turn */
+  toolCalls?: ToolCall[];
+  
+  /** For tool messages, the native tool call this result answers */
+  toolCallId?: string;
+  
+  /** For tool messages, whether the action succeeded */
+  success?: boolean;
+  
+  /** For tool messages, whether the action only read state */
+  readOnly?: boolean;
+  
   /** Timestamp for ordering and compression decisions */
   timestamp?: Date;
   
@@ -236,6 +325,12 @@ export interface RunContext {
   /** Configuration for the current run */
   config: RunConfig;
   
+  /**
+   * Aborted when the run is cancelled. Long-running extensions should
+   * pass it on (e.g. to child processes or fetch) and stop early.
+   */
+  signal?: AbortSignal;
+  
   // ---- Memory Operations ----
   
   /** Add a message to working memory */
@@ -258,20 +353,141 @@ export interface RunConfig {
   /** Maximum iterations before forced stop */
   maxIterations: number;
   
-  /** Token threshold for triggering compression */
-  compressionThreshold: number;
+  /**
+   * Token threshold for triggering compression. Default: derived from the
+   * model's context window (see compressionFraction)
+   */
+  compressionThreshold?: number;
+  
+  /** How the runnable scope is compressed. Default: LLMSummaryStrategy */
+  compressionStrategy?: CompressionStrategy;
+  
+  /**
+   * Fraction of the usable context window (the window less the system
+   * prompt, tool docs and response) that memory may fill before it is
+   * compressed. Default: 0.75
+   */
+  compressionFraction?: number;
+  
+  /**
+   * Tool outputs longer than this many characters are saved as an artifact
+   * and replaced in memory by a head/tail preview that the agent can page
+   * through with <artifact_read>. Default: 10000
+   */
+  maxResultLength?: number;
   
   /** Which extensions are enabled */
   enabledExtensions: string[];
   
+  /**
+   * How many times to ask the model to continue a response that was
+   * truncated at max_tokens. Default: 2
+   */
+  maxContinuations?: number;
+  
+  /**
+   * Stream LLM output and start executing actions as soon as their closing
+   * tag arrives, or with native tool calling as soon as the provider reports
+   * the tool call complete (StreamCallbacks.onToolCall). Requires a
+   * StreamingLLMProvider. Default: false
+   */
+  streaming?: boolean;
+  
+  /**
+   * Run consecutive read-only actions from the same response concurrently.
+   * Default: true
+   */
+  parallelActions?: boolean;
+  
+  /**
+   * Write a checkpoint to .ralph/sessions/<sessionId>/ after every
+   * iteration so the run can be resumed. Default: true
+   */
+  checkpoints?: boolean;
+  
+  /**
+   * Add the rules the Meta-Agent learned in earlier sessions to the system
+   * prompt, and save the rule it learns from this one. Turn off when
+   * recording or replaying LLM calls, so the prompts don't depend on
+   * .ralph/knowledge.md. Default: true
+   */
+  learnedRules?: boolean;
+  
+  /** Optional token and cost limits for the whole run */
+  budget?: RunBudget;
+  
+  /** When and how to intervene if the agent keeps repeating itself */
+  loopDetection?: LoopDetectionConfig;
+  
   /** Model-specific settings */
   model: {
     provider: 'anthropic' | 'openai' | 'openai-compatible' | 'local';
     name: string;
     supportsToolUse: boolean;
+    
+    /** Overrides the model registry, e.g. for local models */
+    contextWindow?: number;
+    maxOutputTokens?: number;
   };
 }
 
+/**
+ * LoopDetectionConfig - Thresholds for repeated-action detection.
+ * 
+ * A repeat is the same set of actions in consecutive iterations, or the
+ * same action failing with the same result. Escalation goes: corrective
+ * message, Architect replanning, then terminationReason 'stuck'.
+ */
+export interface LoopDetectionConfig {
+  /** Default: true */
+  enabled?: boolean;
+  
+  /** Repeats before a corrective message is injected. Default: 2 */
+  warnAfter?: number;
+  
+  /** Repeats at which the Architect is asked for a new plan. Default: 3 */
+  replanAfter?: number;
+  
+  /** Repeats before the run is stopped as stuck. Default: 5 */
+  maxRepeats?: number;
+}
+
+/**
+ * RunBudget - Per-run limits on token usage and estimated cost.
+ * 
+ * Totals include the main loop and all sub-agent calls. When a limit is
+ * exceeded the run stops with terminationReason 'budget_exceeded'.
+ */
+export interface RunBudget {
+  /** Maximum total tokens (prompt + completion) */
+  maxTokens?: number;
+  
+  /** Maximum estimated cost in USD */
+  maxCostUsd?: number;
+  
+  /** Price overrides, merged over the built-in table, keyed by model name */
+  pricing?: Record<string, ModelPricing>;
+}
+
+/**
+ * ModelPricing - USD price per million tokens.
+ */
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+/**
+ * ModelLimits - Token limits of a model.
+ */
+export interface ModelLimits {
+  /** Total tokens the model accepts, prompt and response together */
+  contextWindow: number;
+  
+  /** Most tokens a single response can use */
+  maxOutputTokens: number;
+}
+
 // ============================================================================
 // Artifact System Types
 // ============================================================================
@@ -294,6 +510,24 @@ export interface Artifact {
   
   /** Inline content for small artifacts */
   content?: string | Buffer;
+  
+  // ---- Provenance (filled in by the orchestrator when saving) ----
+  
+  /** Session that produced the artifact */
+  sessionId?: string;
+  
+  /** Extension that produced the artifact */
+  extension?: string;
+  
+  /** Iteration the artifact was produced in */
+  iteration?: number;
+}
+
+/**
+ * ArtifactFilter - Narrows ArtifactStore.list().
+ */
+export interface ArtifactFilter {
+  sessionId?: string;
 }
 
 /**
@@ -302,7 +536,7 @@ export interface Artifact {
 export interface ArtifactStore {
   save: (artifact: Artifact) => Promise<string>;
   get: (id: string) => Promise<Artifact | null>;
-  list: () => Promise<Artifact[]>;
+  list: (filter?: ArtifactFilter) => Promise<Artifact[]>;
 }
 
 // ============================================================================
@@ -354,6 +588,9 @@ export interface Logger {
  * OrchestratorState - Current state of the agent loop.
  */
 export interface OrchestratorState {
+  /** Session this run belongs to (use with ConfuciusOrchestrator.resume) */
+  sessionId?: string;
+  
   /** Current iteration */
   iteration: number;
   
@@ -361,12 +598,36 @@ export interface OrchestratorState {
   running: boolean;
   
   /** Why did the loop terminate? */
-  terminationReason?: 'completed' | 'max_iterations' | 'error' | 'user_cancelled';
+  terminationReason?: 'completed' | 'max_iterations' | 'error' | 'user_cancelled' | 'budget_exceeded' | 'stuck';
   
   /** Final output/artifacts */
   result?: ExecutionResult;
+  
+  /** Token usage and estimated cost per caller */
+  cost?: CostBreakdown;
+}
+
+/**
+ * CostCategory - Which part of the run made an LLM call.
+ */
+export type CostCategory = 'main' | 'architect' | 'noteTaker' | 'metaAgent';
+
+/**
+ * UsageCost - Accumulated usage and estimated cost.
+ */
+export interface UsageCost {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
 }
 
+/**
+ * CostBreakdown - Usage and cost per category, plus the run total.
+ */
+export type CostBreakdown = Record<CostCategory, UsageCost> & { total: UsageCost };
+
 /**
  * LLMResponse - Raw response from the language model.
  */
@@ -383,4 +644,7 @@ export interface LLMResponse {
   
   /** Stop reason */
   stopReason: 'end_turn' | 'max_tokens' | 'tool_use' | 'stop_sequence';
+  
+  /** Native tool calls, when tools were offered and the model used them */
+  toolCalls?: ToolCall[];
 }
@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RuleApprovalPolicy } from '../build/sdk/approval.js';
+
+const fileEdit = { name: 'file_edit', isReadOnly: () => false };
+const edit = (path) => ({ tool: 'file_edit', parameters: { path }, rawContent: '' });
+const rules = [{ extension: 'file_edit', pattern: '^src/', decision: 'auto' }];
+
+test('an auto rule approves paths inside the working directory', () => {
+  const policy = new RuleApprovalPolicy(rules, '/work/project');
+  assert.equal(policy.classify(fileEdit, edit('src/index.ts'), {}).decision, 'auto');
+  assert.equal(policy.classify(fileEdit, edit('./src/index.ts'), {}).decision, 'auto');
+  assert.equal(policy.classify(fileEdit, edit('/work/project/src/index.ts'), {}).decision, 'auto');
+});
+
+test('an auto rule does not approve src/../.. paths that leave the working directory', () => {
+  const policy = new RuleApprovalPolicy(rules, '/work/project');
+  for (const path of ['src/../../etc/passwd', 'src/../../../root/.ssh/authorized_keys']) {
+    const { decision, reason } = policy.classify(fileEdit, edit(path), {});
+    assert.equal(decision, 'needs-approval', path);
+    assert.match(reason, /outside the working directory/);
+  }
+});
+
+test('a path that only passes through src/ is matched as normalized', () => {
+  const policy = new RuleApprovalPolicy(rules, '/work/project');
+  assert.equal(policy.classify(fileEdit, edit('src/../package.json'), {}).decision, 'needs-approval');
+});
+
+test('deny rules still apply to paths outside the working directory', () => {
+  const policy = new RuleApprovalPolicy([{ extension: 'file_edit', pattern: '^/etc/', decision: 'deny' }], '/work/project');
+  assert.equal(policy.classify(fileEdit, edit('src/../../../etc/passwd'), {}).decision, 'deny');
+});
@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { ConfuciusOrchestrator } from '../build/sdk/orchestrator.js';
+import { ExtensionRegistry } from '../build/sdk/registry.js';
+import { MockLLMProvider } from '../build/sdk/providers/mock.js';
+import { RecordingLLMProvider, ReplayLLMProvider, ReplayMismatchError, loadCassette } from '../build/sdk/providers/record-replay.js';
+import { MemoryArtifactStore } from '../build/sdk/artifacts/memory-store.js';
+import { createBashExtension, createFinishExtension, createArtifactReadExtension } from '../build/sdk/extensions/index.js';
+
+const logger = { debug() {}, info() {}, warn() {}, error() {}, startTimer: () => () => {} };
+logger.child = () => logger;
+
+const usage = { promptTokens: 1, completionTokens: 1, totalTokens: 2 };
+
+/** Main loop: print a long output (offloaded to an artifact), then finish */
+const mainScript = (messages) => ({
+  content: messages.some(m => m.content.includes('[Full output saved as artifact'))
+    ? '<finish>counted</finish>'
+    : '<bash>seq 1 5000</bash>',
+  usage,
+});
+
+/** Sub-agents: the Meta-Agent always comes up with a lesson */
+const agentScript = () => ({ content: 'Check the exit code of every command.', usage });
+
+function createOrchestrator(workingDirectory, llm, agentLLM) {
+  const registry = new ExtensionRegistry(logger);
+  registry.register(createBashExtension({ cwd: workingDirectory }));
+  registry.register(createArtifactReadExtension());
+  registry.register(createFinishExtension());
+  return new ConfuciusOrchestrator({
+    llm,
+    agentLLM,
+    registry,
+    logger,
+    artifacts: new MemoryArtifactStore(),
+    systemPrompt: 'You are a coding agent under test.',
+    workingDirectory,
+    config: {
+      maxIterations: 5,
+      compressionThreshold: 100000,
+      enabledExtensions: registry.listNames(),
+      learnedRules: false,
+      model: { provider: 'local', name: 'mock', supportsToolUse: false },
+    },
+  });
+}
+
+test('a recorded run replays in the same directory', async (t) => {
+  const workingDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'confucius-replay-'));
+  t.after(() => fs.rm(workingDirectory, { recursive: true, force: true }));
+  const cassettePath = path.join(workingDirectory, 'run.cassette.json');
+
+  const recorder = createOrchestrator(
+    workingDirectory,
+    new RecordingLLMProvider(new MockLLMProvider(mainScript), cassettePath),
+    new RecordingLLMProvider(new MockLLMProvider(agentScript), path.join(workingDirectory, 'agents.cassette.json'))
+  );
+  const recorded = await recorder.run('Count to 5000');
+  assert.equal(recorded.terminationReason, 'completed');
+
+  const main = new ReplayLLMProvider(await loadCassette(cassettePath));
+  const agents = new ReplayLLMProvider(await loadCassette(path.join(workingDirectory, 'agents.cassette.json')));
+  const replayed = await createOrchestrator(workingDirectory, main, agents).run('Count to 5000');
+
+  assert.equal(replayed.terminationReason, 'completed', replayed.result?.output);
+  assert.equal(replayed.result?.output, recorded.result?.output);
+  main.assertDone();
+  agents.assertDone();
+});
+
+test('a replay mismatch is rethrown on every later call', async () => {
+  const replay = new ReplayLLMProvider({
+    version: 1,
+    recordedAt: new Date().toISOString(),
+    interactions: [
+      { request: { systemPrompt: 'main', messages: [] }, response: { content: 'a', usage } },
+      { request: { systemPrompt: 'notes', messages: [] }, response: { content: 'b', usage } },
+    ],
+  });
+
+  const first = await replay.invoke('changed', []).catch(error => error);
+  assert.ok(first instanceof ReplayMismatchError);
+  assert.match(first.message, /call #1: system prompt differs/);
+
+  const second = await replay.invoke('notes', []).catch(error => error);
+  assert.equal(second, first);
+  assert.throws(() => replay.assertDone(), first);
+});